@@ -9,11 +9,23 @@ import { Navbar } from './components/Navbar';
 import { GameControls } from './components/GameControls';
 import { ScoreBar } from './components/ScoreBar';
 import { MobileChatWidget } from './components/MobileChatWidget';
-
-import { createBoard, placeStone, setStone } from './services/gameLogic';
-import { generateSgf, parseSgf } from './services/sgfService';
+import { VariationSelector } from './components/VariationSelector';
+import { GameLibraryModal } from './components/GameLibraryModal';
+import { DiagramExportModal } from './components/DiagramExportModal';
+
+import { createBoard, placeStone, setStone, isValidBoardSize, getMaxFixedHandicap } from './services/gameLogic';
+import { generateSgf, parseSgf, buildGameTreeFromSgf, downloadSgf } from './services/sgfService';
+import { LibraryGame, saveSgfToLibrary, saveAutosave, loadAutosave } from './services/gameLibrary';
+import { GameTree, getCurrentBoard, getChildIndexPath, goToChildIndexPath } from './services/gameTree';
+import { SharedGame, createShareUrl, readShareHash } from './services/shareLink';
+import { importGameRecord, decodeRecordFile } from './services/recordImport';
+import { readAsciiDiagram, asciiDiagramToSgf } from './services/asciiDiagram';
+import { writeSgf } from './services/sgfParser';
 import { calculateInfluence } from './services/influenceService';
-import { BoardState, Coordinate, ChatMessage, Marker, StoneColor, InfluenceMap } from './types';
+import { getGnuGoEndpoint, setGnuGoEndpoint } from './services/gnugoService';
+import { getScoringEngine, HUMAN_OPPONENT, connectGtpEngine, registerEngine, unregisterEngine, LOCAL_GTP_ENGINE_ID, opponentPlayer } from './services/engines';
+import { DEFAULT_RULE_SET, withHandicapKomi } from './services/ruleSets';
+import { BoardState, Coordinate, ChatMessage, Marker, StoneColor, InfluenceMap, RuleSet } from './types';
 
 // Hooks
 import { useGoGame } from './hooks/useGoGame';
@@ -22,24 +34,34 @@ import { useAiCoach } from './hooks/useAiCoach';
 
 export default function App() {
   const [boardSize, setBoardSize] = useState(9);
+  const [ruleSet, setRuleSet] = useState<RuleSet>(DEFAULT_RULE_SET);
+  const [handicap, setHandicap] = useState(0);
   const [influenceEnabled, setInfluenceEnabled] = useState(false);
   const [stoneFacesEnabled, setStoneFacesEnabled] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [gnugoUrl, setGnugoUrl] = useState(getGnuGoEndpoint);
+  // Display name of the engine connected through the GTP bridge, if any
+  const [localEngineName, setLocalEngineName] = useState<string | null>(null);
   
   // --- Game State Hook ---
   const {
       board, setBoard,
-      historyStack,
-      redoStack,
+      tree, canUndo, canRedo,
+      variations, continuations, onMainLine, goToMove, nextVariation, backToMainLine,
       gameResult, setGameResult,
       gamePhase, setGamePhase,
       setupTool, setSetupTool,
       confirmationPending, setConfirmationPending,
-      playMove, applyMove, passTurn, resign, undo, redo, reset, loadGame, endGameWithScore, setTurn
-  } = useGoGame(boardSize);
+      deadStones, setDeadStones, scoringPreview,
+      playMove, applyMove, passTurn, resign, undo, redo, reset, loadGame, setTurn, setRules, confirmScore, resumePlay
+  } = useGoGame(boardSize, ruleSet, handicap);
 
   const [showGameOverModal, setShowGameOverModal] = useState(false);
   const [showHelpModal, setShowHelpModal] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isDiagramOpen, setIsDiagramOpen] = useState(false);
+  // Library entry the current game was saved as (or opened from), so saving again updates it
+  const libraryIdRef = useRef<string | null>(null);
 
   // Chat State
   const [messages, setMessages] = useState<ChatMessage[]>([{
@@ -49,17 +71,16 @@ export default function App() {
     moveNumber: 0
   }]);
 
-  const addMessage = useCallback((sender: 'user' | 'sensei', text: string) => {
+  const addMessage = useCallback((sender: 'user' | 'sensei', text: string, markers?: Marker[]) => {
     setMessages(prev => [...prev, { 
       id: Date.now().toString(), 
       sender, 
       text,
+      markers,
       moveNumber: board.history.length + 1
     }]);
   }, [board.history.length]);
 
-  const influenceMap = useMemo(() => influenceEnabled ? calculateInfluence(board) : null, [board, influenceEnabled]);
-
   // Mobile Chat UI State
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [unreadSenseiMsg, setUnreadSenseiMsg] = useState<string | null>(null);
@@ -77,9 +98,9 @@ export default function App() {
   const activeTurnIdRef = useRef<number>(0);
 
   // --- CUSTOM HOOKS ---
-  const { analysisData, setAnalysisData } = useAnalysis(board, gamePhase);
   const {
       engineStatus,
+      engineProgress,
       isSenseiThinking,
       setIsSenseiThinking,
       activeMarkers,
@@ -100,6 +121,13 @@ export default function App() {
       mentorMessage,
       setMentorMessage
   } = useAiCoach({ addMessage, setPreviewDismissed });
+  const { analysisData, setAnalysisData, estimate } = useAnalysis(board, gamePhase, engineStatus === 'THINKING' || isAiPending);
+
+  // The engine's territory estimate once there is one, the quick stone-distance map until then
+  const influenceMap = useMemo(
+    () => influenceEnabled ? (estimate?.ownership ?? calculateInfluence(board)) : null,
+    [board, influenceEnabled, estimate]
+  );
 
   useEffect(() => {
     setShowGameOverModal(!!gameResult);
@@ -110,6 +138,20 @@ export default function App() {
     }
   }, [gameResult]);
 
+  // When the game enters scoring against an AI, the opponent proposes its dead stones first
+  useEffect(() => {
+    if (gamePhase !== 'SCORING' || opponentModel === HUMAN_OPPONENT) return;
+    const controller = new AbortController();
+    getScoringEngine(opponentModel).score!(board, controller.signal).then(dead => {
+        if (controller.signal.aborted) return;
+        setDeadStones(new Set(dead));
+        addMessage('sensei', dead.length > 0
+            ? `I think ${dead.length} stone${dead.length === 1 ? ' is' : 's are'} dead (they look faded). Tap a group if you disagree!`
+            : "I don't think any stones are dead. Tap a group if you disagree!");
+    }).catch(() => {});
+    return () => controller.abort();
+  }, [gamePhase, board, opponentModel, setDeadStones, addMessage]);
+
   const lastNotifiedMsgIdRef = useRef<string | null>(null);
   useEffect(() => {
       const lastMsg = messages[messages.length - 1];
@@ -129,7 +171,7 @@ export default function App() {
   const getGhostColor = (): StoneColor | 'ERASER' => {
       if (gamePhase === 'SETUP') {
           if (setupTool === 'WHITE_ONLY') return 'WHITE';
-          if (setupTool === 'BLACK_ONLY') return 'BLACK';
+          if (setupTool === 'BLACK_ONLY' || setupTool === 'HANDICAP') return 'BLACK';
           if (setupTool === 'CLEAR') return 'ERASER';
       }
       return board.turn;
@@ -142,33 +184,40 @@ export default function App() {
   }, []);
 
   const handleForceAi = useCallback(async () => {
-      if (board.gameOver || opponentModel === 'human') return;
+      if (board.gameOver || opponentModel === HUMAN_OPPONENT) return;
       handlePauseAutoPlay();
-      await triggerAiMove(board, opponentModel, { applyMove, passTurn, endGameWithScore });
+      await triggerAiMove(board, opponentModel, { applyMove, passTurn, resign });
       setIsAiPending(false);
-  }, [board, opponentModel, triggerAiMove, applyMove, passTurn, endGameWithScore, handlePauseAutoPlay]);
+  }, [board, opponentModel, triggerAiMove, applyMove, passTurn, resign, handlePauseAutoPlay]);
 
   const handleUserPass = useCallback(async () => {
     handlePauseAutoPlay();
-    const { nextState, gameOver, result } = await passTurn();
+    const { nextState, scoring } = await passTurn();
     
-    if (gameOver && result) {
-      addMessage('sensei', `Game Over! ${result.winner === 'BLACK' ? 'Black' : 'White'} wins by ${result.score?.diff ?? 0} points.`);
+    if (scoring) {
+      addMessage('sensei', "Both players passed! Time to count. Tap any groups you think are dead, then press Confirm Score.");
       return;
     }
 
-    if (gamePhase === 'PLAY' && nextState.turn === 'WHITE' && opponentModel !== 'human') {
+    if (gamePhase === 'PLAY' && nextState.turn === 'WHITE' && opponentModel !== HUMAN_OPPONENT) {
         setIsAiPending(true);
         activeTurnIdRef.current++;
         const turnId = activeTurnIdRef.current;
         aiTimerRef.current = setTimeout(async () => {
             if (activeTurnIdRef.current === turnId) {
-                await triggerAiMove(nextState, opponentModel, { applyMove, passTurn, endGameWithScore });
+                await triggerAiMove(nextState, opponentModel, { applyMove, passTurn, resign });
                 if (activeTurnIdRef.current === turnId) setIsAiPending(false);
             }
         }, 1000);
     }
-  }, [passTurn, handlePauseAutoPlay, gamePhase, opponentModel, triggerAiMove, applyMove, endGameWithScore, addMessage]);
+  }, [passTurn, handlePauseAutoPlay, gamePhase, opponentModel, triggerAiMove, applyMove, resign, addMessage]);
+
+  const handleConfirmScore = useCallback(() => {
+    const result = confirmScore();
+    addMessage('sensei', result.winner
+        ? `Game Over! ${result.winner === 'BLACK' ? 'Black' : 'White'} wins by ${result.score?.diff ?? 0} points.`
+        : 'Game Over! The game is a draw (jigo).');
+  }, [confirmScore, addMessage]);
 
   const handleUserResign = useCallback(() => {
     handlePauseAutoPlay();
@@ -186,15 +235,15 @@ export default function App() {
     const nextState = result.newState;
     if (!nextState) return;
 
-    // Skip all coaching and AI logic if we are in SETUP mode
-    if (gamePhase === 'SETUP') return;
+    // Skip all coaching and AI logic if we are in SETUP mode or marking dead stones
+    if (gamePhase === 'SETUP' || gamePhase === 'SCORING') return;
 
     setHighlightedMoveIndex(null);
     setShowBestMoves(false);
 
     const isBad = isMoveSuboptimal(board, c, analysisData);
 
-    if (gamePhase === 'PLAY' && !nextState.gameOver && nextState.turn === 'WHITE' && opponentModel !== 'human') {
+    if (gamePhase === 'PLAY' && !nextState.gameOver && nextState.turn === 'WHITE' && opponentModel !== HUMAN_OPPONENT) {
         if (aiTimerRef.current) clearTimeout(aiTimerRef.current);
         activeTurnIdRef.current++;
         const turnId = activeTurnIdRef.current;
@@ -211,7 +260,7 @@ export default function App() {
             
             Promise.race([feedbackPromise, timeoutPromise]).then(async () => {
                 if (activeTurnIdRef.current === turnId) {
-                    await triggerAiMove(nextState, opponentModel, { applyMove, passTurn, endGameWithScore });
+                    await triggerAiMove(nextState, opponentModel, { applyMove, passTurn, resign });
                     if (activeTurnIdRef.current === turnId) setIsAiPending(false);
                 }
             }).catch(() => {
@@ -223,7 +272,7 @@ export default function App() {
             stopFeedback();
             aiTimerRef.current = setTimeout(async () => {
                 if (activeTurnIdRef.current === turnId) {
-                    await triggerAiMove(nextState, opponentModel, { applyMove, passTurn, endGameWithScore });
+                    await triggerAiMove(nextState, opponentModel, { applyMove, passTurn, resign });
                     if (activeTurnIdRef.current === turnId) setIsAiPending(false);
                 }
             }, 1000);
@@ -234,12 +283,17 @@ export default function App() {
         setPreviewDismissed(false);
         generateBadMoveFeedback(board, c, analysisData);
     }
-  }, [playMove, gamePhase, triggerAiMove, analysisData, board, opponentModel, applyMove, passTurn, endGameWithScore, addMessage, setIsBadMoveBannerVisible, isMoveSuboptimal, generateBadMoveFeedback, setLastMoveQuestionable, setPreviewDismissed, stopFeedback, setMentorMessage, setBoard]);
+  }, [playMove, gamePhase, triggerAiMove, analysisData, board, opponentModel, applyMove, passTurn, resign, addMessage, setIsBadMoveBannerVisible, isMoveSuboptimal, generateBadMoveFeedback, setLastMoveQuestionable, setPreviewDismissed, stopFeedback, setMentorMessage, setBoard]);
 
-  const handleReset = useCallback((newSize?: number) => {
+  // `notice` goes in front of the welcome message, e.g. why the handicap changed
+  const handleReset = useCallback((newSize?: number, newHandicap?: number, notice?: string) => {
         handlePauseAutoPlay();
-        reset(newSize);
-        setMessages([{ id: Date.now().toString(), sender: 'sensei', text: "Ready for a new game! Good luck!", moveNumber: 0 }]);
+        const fresh = reset(newSize, newHandicap);
+        libraryIdRef.current = null;
+        const welcome = (notice ? `${notice} ` : '') + (fresh.handicapStones.length > 0
+            ? `Ready for a new game! You get ${fresh.handicapStones.length} handicap stones, so White plays first. Good luck!`
+            : "Ready for a new game! Good luck!");
+        setMessages([{ id: Date.now().toString(), sender: 'sensei', text: welcome, moveNumber: 0 }]);
         resetCoach();
         setAnalysisData([]);
         setShowBestMoves(false);
@@ -247,11 +301,25 @@ export default function App() {
         setPreviewDismissed(true);
         setIsAiPending(false);
         setHighlightedMoveIndex(null);
-  }, [handlePauseAutoPlay, reset, resetCoach, setAnalysisData]);
 
-  const handleUndo = () => {
+        // Handicap games start with White, so the AI opens
+        if (fresh.turn === 'WHITE' && opponentModel !== HUMAN_OPPONENT) {
+            setIsAiPending(true);
+            activeTurnIdRef.current++;
+            const turnId = activeTurnIdRef.current;
+            aiTimerRef.current = setTimeout(async () => {
+                if (activeTurnIdRef.current === turnId) {
+                    await triggerAiMove(fresh, opponentModel, { applyMove, passTurn, resign });
+                    if (activeTurnIdRef.current === turnId) setIsAiPending(false);
+                }
+            }, 1000);
+        }
+  }, [handlePauseAutoPlay, reset, resetCoach, setAnalysisData, opponentModel, triggerAiMove, applyMove, passTurn, resign]);
+
+  // Moving around the game tree (undo, redo, variations) drops everything tied to the position we left
+  const handleNavigate = (navigate: () => void) => {
       handlePauseAutoPlay();
-      undo();
+      navigate();
       setAnalysisData([]); 
       setShowBestMoves(false); 
       setUnreadSenseiMsg(null);
@@ -262,10 +330,217 @@ export default function App() {
       setIsBadMoveBannerVisible(false); // Hide banner on undo since the "bad" move is gone
   };
 
+  const handleUndo = () => handleNavigate(undo);
+  const handleRedo = () => handleNavigate(redo);
+
   const handleBoardSizeChange = useCallback((newSize: number) => {
+      if (!isValidBoardSize(newSize)) return;
       setBoardSize(newSize);
-      handleReset(newSize);
-  }, [handleReset]);
+      // Smaller boards have fewer star points: keep the handicap within what the new size can place
+      const maxHandicap = getMaxFixedHandicap(newSize);
+      if (handicap <= maxHandicap) {
+          handleReset(newSize);
+          return;
+      }
+      setHandicap(maxHandicap);
+      handleReset(newSize, maxHandicap, maxHandicap > 0
+          ? `${newSize}x${newSize} boards only have star points for ${maxHandicap} handicap stones.`
+          : `${newSize}x${newSize} boards have no star points for handicap stones.`);
+  }, [handleReset, handicap]);
+
+  const handleHandicapChange = useCallback((newHandicap: number) => {
+      setHandicap(newHandicap);
+      handleReset(boardSize, newHandicap);
+  }, [handleReset, boardSize]);
+
+  const handleRuleSetChange = useCallback((rules: RuleSet) => {
+      setRuleSet(rules);
+      setRules(withHandicapKomi(rules, board.handicapStones.length));
+  }, [setRules, board.handicapStones.length]);
+
+  // Leaving setup with freely placed handicap stones switches to handicap komi
+  const handleExitSetup = useCallback(() => {
+      setGamePhase('PLAY');
+      setRules(withHandicapKomi(ruleSet, board.handicapStones.length));
+  }, [setGamePhase, setRules, ruleSet, board.handicapStones.length]);
+
+  const handleGnuGoEndpointChange = useCallback((url: string) => {
+      setGnuGoEndpoint(url);
+      setGnugoUrl(getGnuGoEndpoint());
+  }, []);
+
+  // Throws if nothing answers at `url`, so the settings dialog can show why
+  const handleConnectLocalEngine = useCallback(async (url: string) => {
+      const engine = await connectGtpEngine(url);
+      registerEngine(engine);
+      setLocalEngineName(engine.displayName);
+      setOpponentModel(LOCAL_GTP_ENGINE_ID);
+      addMessage('sensei', `${engine.displayName} is connected and will play White.`);
+  }, [addMessage]);
+
+  const handleDisconnectLocalEngine = useCallback(() => {
+      unregisterEngine(LOCAL_GTP_ENGINE_ID);
+      setLocalEngineName(null);
+      if (opponentModel === LOCAL_GTP_ENGINE_ID) setOpponentModel('gnugo_1');
+  }, [opponentModel]);
+
+  // --- SAVE / LOAD ---
+  const currentSgf = useCallback((withChat: boolean = true) => generateSgf(board, {
+      tree,
+      result: gameResult,
+      messages: withChat ? messages : undefined,
+      black: { name: opponentModel === HUMAN_OPPONENT ? 'Black' : 'Student' },
+      white: opponentPlayer(opponentModel) ?? { name: 'White' }
+  }), [board, tree, gameResult, messages, opponentModel]);
+
+  // Replaces the current game with an SGF record (from a file, the library, the autosave or a link),
+  // at the end of its main line unless `position` picks another node
+  const openSgf = useCallback((sgf: string, restored?: { messages: ChatMessage[], opponentModel: string | number }, position?: (tree: GameTree) => GameTree): boolean => {
+      const parsed = parseSgf(sgf);
+      if (!parsed.isValid) {
+          addMessage('sensei', `I couldn't open that game: ${parsed.error}`);
+          return false;
+      }
+
+      handlePauseAutoPlay();
+      resetCoach();
+      const built = buildGameTreeFromSgf(parsed, ruleSet);
+      const loaded = position ? position(built) : built;
+      const start = loaded.nodes.get(loaded.rootId)!.board;
+      setBoardSize(parsed.size);
+      setHandicap(start.handicapStones.length);
+      setRuleSet(start.rules);
+      loadGame(loaded);
+
+      if (restored) {
+          setMessages(restored.messages);
+          setOpponentModel(restored.opponentModel);
+      } else {
+          const repaired = parsed.warnings.length > 0 ? ` (I had to fix ${parsed.warnings.length} problem${parsed.warnings.length === 1 ? '' : 's'} in the file.)` : '';
+          setMessages([{
+              id: Date.now().toString(),
+              sender: 'sensei',
+              text: `Game loaded: ${parsed.moves.length} moves on ${parsed.size}x${parsed.size}. Use Undo and Redo to step through it!${repaired}`,
+              moveNumber: getCurrentBoard(loaded).history.length
+          }]);
+      }
+      setAnalysisData([]);
+      setShowBestMoves(false);
+      setUnreadSenseiMsg(null);
+      setPreviewDismissed(true);
+      setIsAiPending(false);
+      setHighlightedMoveIndex(null);
+      return true;
+  }, [addMessage, handlePauseAutoPlay, resetCoach, ruleSet, loadGame, setAnalysisData]);
+
+  const handleSave = useCallback(async () => {
+      const sgf = currentSgf();
+      downloadSgf(sgf, `gobot-${new Date().toISOString().split('T')[0]}.sgf`);
+      try {
+          const saved = await saveSgfToLibrary(sgf, libraryIdRef.current ?? undefined);
+          if (saved) libraryIdRef.current = saved.id;
+          addMessage('sensei', "Game saved! You'll find it under 📚 Games.");
+      } catch (e) {
+          console.error('Game library error', e);
+      }
+  }, [currentSgf, addMessage]);
+
+  const handleLoadFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Lets the same file be picked again
+      if (!file) return;
+      // Tygem, WBaduk and Pandanet records are converted to SGF first
+      file.arrayBuffer().then(bytes => {
+          const imported = importGameRecord(decodeRecordFile(bytes, file.name), file.name);
+          if (!imported) {
+              addMessage('sensei', `I don't know how to read ${file.name}. Try an .sgf, .gib, .ngf or .ugf file.`);
+              return;
+          }
+          if (openSgf(imported.sgf)) libraryIdRef.current = null;
+      }).catch(err => {
+          addMessage('sensei', `I couldn't read ${file.name}, the file seems to be damaged (${err instanceof Error ? err.message : String(err)}).`);
+      });
+  }, [openSgf, addMessage]);
+
+  // A Sensei's Library "$$" diagram from the clipboard becomes the setup position
+  const handlePasteDiagram = useCallback(async () => {
+      const text = await navigator.clipboard?.readText().catch(() => null);
+      if (!text?.includes('$$')) {
+          addMessage('sensei', 'Copy a text diagram first (the lines starting with $$), then press Paste.');
+          return;
+      }
+      try {
+          const diagram = readAsciiDiagram(text);
+          if (!openSgf(writeSgf([asciiDiagramToSgf(diagram)]))) return;
+          libraryIdRef.current = null;
+          setGamePhase('SETUP');
+          setActiveMarkers(diagram.markers);
+      } catch (e) {
+          addMessage('sensei', `I couldn't read that diagram: ${(e as Error).message}`);
+      }
+  }, [openSgf, setGamePhase, setActiveMarkers, addMessage]);
+
+  const handleOpenLibraryGame = useCallback((game: LibraryGame) => {
+      if (!openSgf(game.sgf)) return;
+      libraryIdRef.current = game.id;
+      setIsLibraryOpen(false);
+  }, [openSgf]);
+
+  // --- SHARE LINKS ---
+  // The whole game (without the chat) plus the position on screen and the sensei's markers
+  const handleCopyLink = useCallback(async (): Promise<boolean> => {
+      try {
+          const url = await createShareUrl({ sgf: currentSgf(false), path: getChildIndexPath(tree, tree.currentId), markers: activeMarkers });
+          await navigator.clipboard.writeText(url);
+          return true;
+      } catch (e) {
+          console.error('Share link error', e);
+          return false;
+      }
+  }, [currentSgf, tree, activeMarkers]);
+
+  const openSharedGame = useCallback((shared: SharedGame) => {
+      if (!openSgf(shared.sgf, undefined, loaded => goToChildIndexPath(loaded, shared.path))) return;
+      libraryIdRef.current = null;
+      setActiveMarkers(shared.markers);
+  }, [openSgf, setActiveMarkers]);
+
+  // On start a shared link wins over the autosave. Its hash is then dropped, so a refresh keeps the game being played.
+  const autosaveReadyRef = useRef(false);
+  useEffect(() => {
+      const restore = async () => {
+          const snapshot = await loadAutosave().catch(e => {
+              console.error('Autosave unavailable', e);
+              return null;
+          });
+          // The GNU Go server is a setting, not part of the game, so it's kept even when a link opens another game
+          if (snapshot?.gnugoUrl) handleGnuGoEndpointChange(snapshot.gnugoUrl);
+          try {
+              const shared = await readShareHash(window.location.hash);
+              if (shared) {
+                  openSharedGame(shared);
+                  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+                  return;
+              }
+          } catch (e) {
+              console.error('Share link error', e);
+              addMessage('sensei', "That link seems to be damaged, so I couldn't open the game in it.");
+          }
+          if (snapshot) openSgf(snapshot.sgf, snapshot);
+      };
+      restore()
+          .catch(e => console.error('Autosave unavailable', e))
+          .finally(() => { autosaveReadyRef.current = true; });
+  }, []);
+
+  useEffect(() => {
+      if (!autosaveReadyRef.current) return;
+      const timer = setTimeout(() => {
+          saveAutosave({ sgf: currentSgf(), messages, opponentModel, gnugoUrl, savedAt: Date.now() })
+              .catch(e => console.error('Autosave failed', e));
+      }, 300);
+      return () => clearTimeout(timer);
+  }, [currentSgf, messages, opponentModel, gnugoUrl]);
 
   const onSendMessageWrapper = (text: string) => {
       handleSendMessage(text, board, messages, senseiModel, analysisData);
@@ -279,8 +554,11 @@ export default function App() {
           confirmationPending={confirmationPending}
           setConfirmationPending={setConfirmationPending}
           onReset={() => handleReset(boardSize)}
-          onSave={() => {}} 
-          onLoadFile={() => {}} 
+          onSave={handleSave} 
+          onLoadFile={handleLoadFile} 
+          onOpenLibrary={() => setIsLibraryOpen(true)}
+          onExportDiagram={() => setIsDiagramOpen(true)}
+          onCopyLink={handleCopyLink}
           onCopyGnu={() => {}}
           onHelp={() => setShowHelpModal(true)}
       />
@@ -327,32 +605,48 @@ export default function App() {
                 <GameControls 
                     opponentModel={opponentModel} setOpponentModel={setOpponentModel}
                     gamePhase={gamePhase}
-                    engineStatus={engineStatus} board={board}
+                    engineStatus={engineStatus} engineProgress={engineProgress} board={board}
                     onCancelAi={cancelAiMove} onForceAi={handleForceAi}
-                    onUndo={handleUndo} onRedo={redo}
+                    onUndo={handleUndo} onRedo={handleRedo}
                     onPass={handleUserPass} onResign={handleUserResign}
-                    historyLength={historyStack.length} redoLength={redoStack.length}
+                    canUndo={canUndo} canRedo={canRedo}
                     confirmationPending={confirmationPending} setConfirmationPending={setConfirmationPending}
                     setupTool={setupTool} setSetupTool={setSetupTool}
                     onToggleBestMoves={() => setShowBestMoves(prev => !prev)}
                     showBestMoves={showBestMoves}
                     onOpenSettings={() => setIsSettingsOpen(true)}
                     onSetTurn={setTurn}
-                    onExitSetup={() => setGamePhase('PLAY')}
+                    onExitSetup={handleExitSetup}
+                    onPasteDiagram={handlePasteDiagram}
+                    scorePreview={scoringPreview?.score}
+                    onConfirmScore={handleConfirmScore}
+                    onResumePlay={resumePlay}
                 />
                 )}
              </div>
 
+             <VariationSelector
+                 boardSize={board.size}
+                 variations={variations}
+                 continuations={continuations}
+                 onMainLine={onMainLine}
+                 onSelect={(id) => handleNavigate(() => goToMove(id))}
+                 onStep={(delta) => handleNavigate(() => nextVariation(delta))}
+                 onBackToMainLine={() => handleNavigate(backToMainLine)}
+             />
+
              <GoBoard 
                  board={board} onPlay={handlePlay}
-                 interactive={gamePhase === 'SETUP' || (!board.gameOver && engineStatus !== 'THINKING' && !isAiPending)} 
+                 interactive={gamePhase === 'SETUP' || gamePhase === 'SCORING' || (!board.gameOver && engineStatus !== 'THINKING' && !isAiPending)} 
                  markers={[...activeMarkers, ...(showBestMoves ? analysisData.slice(0, 3).map(m => ({ x: m.coordinate.x, y: m.coordinate.y, type: 'CIRCLE' as const, label: m.score.toFixed(1) })) : [])]}
                  ghostColor={getGhostColor()}
                  highlightedMoveIndex={highlightedMoveIndex}
                  influenceMap={influenceMap}
                  showStoneFaces={stoneFacesEnabled}
+                 deadStones={gamePhase === 'SCORING' ? deadStones : undefined}
+                 territory={scoringPreview?.territory}
              />
-             <ScoreBar board={board} gameResult={gameResult} />
+             <ScoreBar board={board} gameResult={gameResult} estimate={estimate} />
          </div>
 
          <div className="hidden lg:flex w-[400px] bg-slate-50 border-l border-slate-200 p-4 shadow-sm z-10 flex-col h-full justify-center">
@@ -378,6 +672,18 @@ export default function App() {
       
       <GameOverModal isOpen={showGameOverModal} result={gameResult} onClose={() => setShowGameOverModal(false)} onNewGame={() => handleReset(boardSize)} />
       <HelpModal isOpen={showHelpModal} onClose={() => setShowHelpModal(false)} />
+      <GameLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpenGame={handleOpenLibraryGame}
+        onDownloadGame={(game) => downloadSgf(game.sgf, `gobot-${new Date(game.savedAt).toISOString().split('T')[0]}.sgf`)}
+      />
+      <DiagramExportModal
+        isOpen={isDiagramOpen}
+        onClose={() => setIsDiagramOpen(false)}
+        board={board}
+        markers={activeMarkers}
+      />
       <SettingsModal 
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)}
@@ -392,6 +698,15 @@ export default function App() {
         boardSize={boardSize}
         onBoardSizeChange={handleBoardSizeChange}
         hasProgress={board.history.length > 0}
+        ruleSet={ruleSet}
+        onRuleSetChange={handleRuleSetChange}
+        handicap={handicap}
+        onHandicapChange={handleHandicapChange}
+        gnugoEndpoint={gnugoUrl}
+        onGnuGoEndpointChange={handleGnuGoEndpointChange}
+        localEngineName={localEngineName}
+        onConnectLocalEngine={handleConnectLocalEngine}
+        onDisconnectLocalEngine={handleDisconnectLocalEngine}
       />
     </div>
   );
@@ -0,0 +1,197 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { BoardState, Coordinate, Marker } from '../types';
+import { DiagramOptions, DiagramRegion, renderDiagramSvg, renderDiagramPng, fitRegion } from '../services/diagramService';
+import { writeAsciiDiagram } from '../services/asciiDiagram';
+import { downloadFile } from '../services/download';
+
+interface DiagramExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  board: BoardState;
+  markers: Marker[];
+}
+
+type RegionChoice = 'FULL' | 'FIT' | 'TOP_LEFT' | 'TOP_RIGHT' | 'BOTTOM_LEFT' | 'BOTTOM_RIGHT';
+
+const REGION_LABELS: Record<RegionChoice, string> = {
+  FULL: 'Whole board',
+  FIT: 'Fit to stones',
+  TOP_LEFT: 'Top left',
+  TOP_RIGHT: 'Top right',
+  BOTTOM_LEFT: 'Bottom left',
+  BOTTOM_RIGHT: 'Bottom right'
+};
+
+const regionFor = (choice: RegionChoice, board: BoardState, markers: Marker[]): DiagramRegion | undefined => {
+  const last = board.size - 1;
+  const half = Math.ceil(board.size / 2); // Corners overlap the centre line by one
+  switch (choice) {
+    case 'FIT': {
+      const points: Coordinate[] = [...board.stones.keys()].map(k => {
+        const [x, y] = k.split(',').map(Number);
+        return { x, y };
+      });
+      return fitRegion([...points, ...markers], board.size);
+    }
+    case 'TOP_LEFT': return { x1: 0, y1: 0, x2: half, y2: half };
+    case 'TOP_RIGHT': return { x1: last - half, y1: 0, x2: last, y2: half };
+    case 'BOTTOM_LEFT': return { x1: 0, y1: last - half, x2: half, y2: last };
+    case 'BOTTOM_RIGHT': return { x1: last - half, y1: last - half, x2: last, y2: last };
+    default: return undefined;
+  }
+};
+
+export const DiagramExportModal: React.FC<DiagramExportModalProps> = ({ isOpen, onClose, board, markers }) => {
+  const moveCount = board.history.length;
+  const [coordinates, setCoordinates] = useState(true);
+  const [printer, setPrinter] = useState(false);
+  const [includeMarkers, setIncludeMarkers] = useState(true);
+  const [numberMoves, setNumberMoves] = useState(false);
+  const [from, setFrom] = useState(1);
+  const [to, setTo] = useState(moveCount);
+  const [regionChoice, setRegionChoice] = useState<RegionChoice>('FULL');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Start from the whole game each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setFrom(1);
+    setTo(moveCount);
+    setError(null);
+    setCopied(false);
+  }, [isOpen, moveCount]);
+
+  const options: DiagramOptions = useMemo(() => ({
+    coordinates,
+    printer,
+    markers: includeMarkers ? markers : [],
+    moveRange: numberMoves && moveCount > 0 ? { from: Math.min(from, to), to: Math.max(from, to) } : undefined,
+    region: regionFor(regionChoice, board, markers)
+  }), [coordinates, printer, includeMarkers, markers, numberMoves, moveCount, from, to, regionChoice, board]);
+
+  const svg = useMemo(() => isOpen ? renderDiagramSvg(board, options) : '', [isOpen, board, options]);
+
+  if (!isOpen) return null;
+
+  const baseName = `gobot-diagram-${board.size}x${board.size}`;
+
+  const handleSvg = () => downloadFile(svg, `${baseName}.svg`, 'image/svg+xml');
+
+  const handlePng = async () => {
+    try {
+      downloadFile(await renderDiagramPng(board, options), `${baseName}.png`, 'image/png');
+    } catch (e) {
+      console.error('Diagram export error', e);
+      setError("Couldn't create the PNG. Try the SVG instead.");
+    }
+  };
+
+  // Sensei's Library "$$" text for forums and chat apps (at most ten numbered moves)
+  const handleCopyText = async () => {
+    try {
+      await navigator.clipboard.writeText(writeAsciiDiagram(board, options));
+      setCopied(true);
+    } catch (e) {
+      console.error('Clipboard error', e);
+      setError("Couldn't copy to the clipboard.");
+    }
+  };
+
+  const clampMove = (value: string) => Math.max(1, Math.min(moveCount, Number(value) || 1));
+
+  const toggle = (label: string, checked: boolean, onChange: (value: boolean) => void, disabled = false) => (
+    <label className={`flex items-center gap-2 text-sm ${disabled ? 'text-slate-300' : 'text-slate-700'}`}>
+      <input type="checkbox" checked={checked} disabled={disabled} onChange={(e) => onChange(e.target.checked)} className="accent-indigo-600" />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="absolute inset-0" onClick={onClose}></div>
+
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col relative z-10 animate-in zoom-in-95 duration-200 overflow-hidden">
+
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-3">
+            <div className="text-3xl">🖼️</div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">Board Diagram</h2>
+              <p className="text-sm text-slate-500">Export the position as an image or text</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-200 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="overflow-y-auto p-6 flex flex-col sm:flex-row gap-6">
+          <div className="flex-1 flex items-start justify-center bg-slate-50 rounded-xl p-3 border border-slate-200">
+            <img src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`} alt="Diagram preview" className="max-w-full max-h-[60vh]" />
+          </div>
+
+          <div className="sm:w-60 flex flex-col gap-3">
+            {toggle('Coordinates', coordinates, setCoordinates)}
+            {toggle('Black and white (for printing)', printer, setPrinter)}
+            {toggle('Sensei markers', includeMarkers, setIncludeMarkers, markers.length === 0)}
+            {toggle('Number moves', numberMoves, setNumberMoves, moveCount === 0)}
+
+            {numberMoves && moveCount > 0 && (
+              <div className="flex items-center gap-2 text-sm text-slate-600 pl-6">
+                <input type="number" min={1} max={moveCount} value={from} onChange={(e) => setFrom(clampMove(e.target.value))} className="w-16 bg-slate-50 border border-slate-300 rounded-lg p-1" />
+                to
+                <input type="number" min={1} max={moveCount} value={to} onChange={(e) => setTo(clampMove(e.target.value))} className="w-16 bg-slate-50 border border-slate-300 rounded-lg p-1" />
+              </div>
+            )}
+
+            <label className="block text-sm font-medium text-slate-700">
+              Area
+              <select
+                value={regionChoice}
+                onChange={(e) => setRegionChoice(e.target.value as RegionChoice)}
+                className="mt-1 w-full bg-slate-50 border border-slate-300 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2"
+              >
+                {(Object.keys(REGION_LABELS) as RegionChoice[]).map(choice => (
+                  <option key={choice} value={choice}>{REGION_LABELS[choice]}</option>
+                ))}
+              </select>
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2 mt-auto pt-2">
+              <button
+                onClick={handleCopyText}
+                className="flex-1 px-3 py-2 rounded-lg text-sm font-bold bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 transition-all"
+                title="Copy as a $$ text diagram"
+              >
+                {copied ? 'Copied!' : 'Text'}
+              </button>
+              <button
+                onClick={handleSvg}
+                className="flex-1 px-3 py-2 rounded-lg text-sm font-bold bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 transition-all"
+              >
+                SVG
+              </button>
+              <button
+                onClick={handlePng}
+                className="flex-1 px-3 py-2 rounded-lg text-sm font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition-all active:scale-95"
+              >
+                PNG
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,21 @@
 
 import React from 'react';
-import { BoardState, EngineStatus, GamePhase, SetupTool, StoneColor } from '../types';
+import { BoardState, EngineStatus, EngineProgress, GamePhase, GoEngine, SetupTool, StoneColor, ScoreResult } from '../types';
+import { listEngines, getEngine, HUMAN_OPPONENT } from '../services/engines';
+
+// Opponent menu sections, in the registry's order
+const groupEngines = (engines: GoEngine[]): [string, GoEngine[]][] => {
+    const groups = new Map<string, GoEngine[]>();
+    engines.forEach(engine => groups.set(engine.group, [...(groups.get(engine.group) || []), engine]));
+    return [...groups.entries()];
+};
 
 interface GameControlsProps {
     opponentModel: string | number;
     setOpponentModel: (val: string | number) => void;
     gamePhase: GamePhase;
     engineStatus: EngineStatus;
+    engineProgress?: EngineProgress | null;
     board: BoardState;
     onCancelAi: () => void;
     onForceAi: () => void;
@@ -14,8 +23,8 @@ interface GameControlsProps {
     onRedo: () => void;
     onPass: () => void;
     onResign: () => void;
-    historyLength: number;
-    redoLength: number;
+    canUndo: boolean;
+    canRedo: boolean;
     confirmationPending: 'RESET' | 'RESIGN' | null;
     setConfirmationPending: (val: 'RESET' | 'RESIGN' | null) => void;
     setupTool: SetupTool;
@@ -25,6 +34,10 @@ interface GameControlsProps {
     onOpenSettings: () => void;
     onSetTurn?: (color: StoneColor) => void;
     onExitSetup?: () => void;
+    onPasteDiagram?: () => void;
+    scorePreview?: ScoreResult | null;
+    onConfirmScore?: () => void;
+    onResumePlay?: () => void;
 }
 
 export const GameControls: React.FC<GameControlsProps> = ({
@@ -32,6 +45,7 @@ export const GameControls: React.FC<GameControlsProps> = ({
     setOpponentModel,
     gamePhase,
     engineStatus,
+    engineProgress,
     board,
     onCancelAi,
     onForceAi,
@@ -39,8 +53,8 @@ export const GameControls: React.FC<GameControlsProps> = ({
     onRedo,
     onPass,
     onResign,
-    historyLength,
-    redoLength,
+    canUndo,
+    canRedo,
     confirmationPending,
     setConfirmationPending,
     setupTool,
@@ -49,8 +63,16 @@ export const GameControls: React.FC<GameControlsProps> = ({
     showBestMoves,
     onOpenSettings,
     onSetTurn,
-    onExitSetup
+    onExitSetup,
+    onPasteDiagram,
+    scorePreview,
+    onConfirmScore,
+    onResumePlay
 }) => {
+    // An engine that isn't in the menu (e.g. Gemini from an older save) is still shown while selected
+    const selected = getEngine(opponentModel);
+    const engineGroups = groupEngines(selected && selected.hidden ? [...listEngines(), selected] : listEngines());
+
     return (
         <div className="w-full bg-white px-3 py-2 sm:px-4 sm:py-3 rounded-xl shadow-sm border border-slate-200 flex flex-col gap-3 relative z-10 box-border">
             {/* Control Bar Strict Order: Level -> Hints -> Settings -> Undo/Redo -> Force AI -> Actions (Pass/Resign) */}
@@ -59,26 +81,18 @@ export const GameControls: React.FC<GameControlsProps> = ({
                 {/* 1. Level Selector */}
                 <div className="flex items-center gap-2 min-w-0">
                     <select 
-                        value={opponentModel}
+                        value={selected?.id ?? opponentModel}
                         onChange={(e) => setOpponentModel(e.target.value)}
                         className="bg-slate-50 border border-slate-300 text-slate-700 text-xs rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2 font-bold truncate max-w-[130px] shadow-sm"
                     >
-                        <option value="human">👤 Human v. Human</option>
-                        <option value="gnugo_-5">GNU Go Lvl -5</option>
-                        <option value="gnugo_-4">GNU Go Lvl -4</option>
-                        <option value="gnugo_-3">GNU Go Lvl -3</option>
-                        <option value="gnugo_-2">GNU Go Lvl -2</option>
-                        <option value="gnugo_-1">GNU Go Lvl -1</option>
-                        <option value="gnugo_1">GNU Go Lvl 1</option>
-                        <option value="gnugo_2">GNU Go Lvl 2</option>
-                        <option value="gnugo_3">GNU Go Lvl 3</option>
-                        <option value="gnugo_4">GNU Go Lvl 4</option>
-                        <option value="gnugo_5">GNU Go Lvl 5</option>
-                        <option value="gnugo_6">GNU Go Lvl 6</option>
-                        <option value="gnugo_7">GNU Go Lvl 7</option>
-                        <option value="gnugo_8">GNU Go Lvl 8</option>
-                        <option value="gnugo_9">GNU Go Lvl 9</option>
-                        <option value="gnugo_10">GNU Go Lvl 10</option>
+                        <option value={HUMAN_OPPONENT}>👤 Human v. Human</option>
+                        {engineGroups.map(([group, engines]) => (
+                            <optgroup key={group} label={group}>
+                                {engines.map(engine => (
+                                    <option key={engine.id} value={engine.id}>{engine.displayName}</option>
+                                ))}
+                            </optgroup>
+                        ))}
                     </select>
                 </div>
 
@@ -109,7 +123,7 @@ export const GameControls: React.FC<GameControlsProps> = ({
                 <div className="flex items-center bg-slate-100 rounded-lg p-0.5 border border-slate-200 shadow-sm">
                     <button 
                         onClick={onUndo} 
-                        disabled={historyLength === 0} 
+                        disabled={!canUndo} 
                         className="p-1.5 hover:bg-white text-slate-600 rounded-md disabled:opacity-30 transition-all active:scale-90" 
                         title="Undo"
                     >
@@ -119,7 +133,7 @@ export const GameControls: React.FC<GameControlsProps> = ({
                     </button>
                     <button 
                         onClick={onRedo} 
-                        disabled={redoLength === 0} 
+                        disabled={!canRedo} 
                         className="p-1.5 hover:bg-white text-slate-600 rounded-md disabled:opacity-30 transition-all active:scale-90" 
                         title="Redo"
                     >
@@ -133,10 +147,12 @@ export const GameControls: React.FC<GameControlsProps> = ({
                 <div className="flex items-center gap-1.5 min-w-max">
                     {engineStatus === 'THINKING' ? (
                         <div className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 border border-indigo-100 rounded-lg text-[10px] font-bold text-indigo-600 animate-pulse whitespace-nowrap">
-                            <span>⏳ thinking...</span>
+                            <span title={engineProgress?.detail}>
+                                ⏳ thinking...{engineProgress ? ` ${Math.round(engineProgress.fraction * 100)}%` : ''}
+                            </span>
                             <button onClick={onCancelAi} className="text-red-500 underline ml-1 hover:text-red-700 transition-colors">Cancel</button>
                         </div>
-                    ) : (gamePhase === 'PLAY' && board.turn === 'WHITE' && !board.gameOver && opponentModel !== 'human') ? (
+                    ) : (gamePhase === 'PLAY' && board.turn === 'WHITE' && !board.gameOver && opponentModel !== HUMAN_OPPONENT) ? (
                         <button 
                             onClick={onForceAi} 
                             className="px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 border border-indigo-200 rounded-lg text-xs font-bold transition-all active:scale-95 whitespace-nowrap shadow-sm"
@@ -150,7 +166,8 @@ export const GameControls: React.FC<GameControlsProps> = ({
                 <div className="flex items-center gap-1.5 flex-1 justify-end min-w-[140px]">
                     <button 
                         onClick={onPass} 
-                        className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold border border-slate-300 transition-all active:scale-95 shadow-sm"
+                        disabled={gamePhase === 'SCORING'}
+                        className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-bold border border-slate-300 transition-all active:scale-95 shadow-sm disabled:opacity-30"
                     >
                         Pass
                     </button>
@@ -172,7 +189,7 @@ export const GameControls: React.FC<GameControlsProps> = ({
                 <div className="flex flex-col sm:flex-row gap-2 p-2 bg-slate-50 border border-slate-200 rounded-xl animate-in fade-in slide-in-from-top-1 items-center">
                     {/* Setup Stone Tools */}
                     <div className="flex-1 flex gap-1 p-1 bg-white border border-slate-200 rounded-lg w-full">
-                        {(['ALTERNATE', 'BLACK_ONLY', 'WHITE_ONLY', 'CLEAR'] as SetupTool[]).map(tool => (
+                        {(['ALTERNATE', 'BLACK_ONLY', 'WHITE_ONLY', 'CLEAR', 'HANDICAP'] as SetupTool[]).map(tool => (
                             <button
                                 key={tool}
                                 onClick={() => setSetupTool(tool)}
@@ -204,6 +221,15 @@ export const GameControls: React.FC<GameControlsProps> = ({
 
                     <div className="hidden sm:block w-px h-8 bg-slate-200 mx-1" />
 
+                    {/* Paste a $$ diagram from a forum or chat */}
+                    <button 
+                        onClick={onPasteDiagram}
+                        className="w-full sm:w-auto px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-600 text-xs font-bold rounded-lg transition-all whitespace-nowrap"
+                        title="Paste a text diagram ($$ format)"
+                    >
+                        Paste
+                    </button>
+
                     {/* Done Button */}
                     <button 
                         onClick={onExitSetup}
@@ -213,6 +239,34 @@ export const GameControls: React.FC<GameControlsProps> = ({
                     </button>
                 </div>
             )}
+
+            {/* Scoring Tools (Only visible after both players pass) */}
+            {gamePhase === 'SCORING' && (
+                <div className="flex flex-col sm:flex-row gap-2 p-2 bg-slate-50 border border-slate-200 rounded-xl animate-in fade-in slide-in-from-top-1 items-center">
+                    <div className="flex-1 flex flex-col px-2">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tight">Tap groups to mark them dead or alive</span>
+                        {scorePreview && (
+                            <span className="text-xs font-bold text-slate-700">
+                                ⚫ {scorePreview.blackTotal} – ⚪ {scorePreview.whiteTotal}
+                                <span className="text-slate-500 font-medium"> ({scorePreview.winner ? `${scorePreview.winner === 'BLACK' ? 'Black' : 'White'} +${scorePreview.diff}` : 'Jigo'})</span>
+                            </span>
+                        )}
+                    </div>
+
+                    <button 
+                        onClick={onResumePlay}
+                        className="w-full sm:w-auto px-4 py-2 bg-white border border-slate-200 text-slate-600 text-xs font-bold rounded-lg hover:bg-slate-50 transition-all active:scale-95 whitespace-nowrap"
+                    >
+                        Keep Playing
+                    </button>
+                    <button 
+                        onClick={onConfirmScore}
+                        className="w-full sm:w-auto px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-lg shadow-lg shadow-indigo-200 transition-all active:scale-95 whitespace-nowrap"
+                    >
+                        Confirm Score
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,191 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { LibraryGame, listGames, deleteGame, setGameTags } from '../services/gameLibrary';
+
+interface GameLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenGame: (game: LibraryGame) => void;
+  onDownloadGame: (game: LibraryGame) => void;
+}
+
+// Final position of a saved game, drawn small
+const BoardThumbnail: React.FC<{ size: number; position: string }> = ({ size, position }) => (
+  <svg viewBox={`0 0 ${size} ${size}`} className="w-16 h-16 shrink-0 rounded-md bg-[#e3c078] border border-amber-300">
+    {Array.from({ length: size }, (_, i) => (
+      <g key={i} stroke="#8b6b3d" strokeWidth={0.04}>
+        <line x1={0.5} y1={i + 0.5} x2={size - 0.5} y2={i + 0.5} />
+        <line x1={i + 0.5} y1={0.5} x2={i + 0.5} y2={size - 0.5} />
+      </g>
+    ))}
+    {position.split('').map((point, i) => point === '.' ? null : (
+      <circle
+        key={i}
+        cx={(i % size) + 0.5}
+        cy={Math.floor(i / size) + 0.5}
+        r={0.46}
+        fill={point === 'B' ? '#1e293b' : '#f8fafc'}
+        stroke={point === 'B' ? 'none' : '#94a3b8'}
+        strokeWidth={0.05}
+      />
+    ))}
+  </svg>
+);
+
+export const GameLibraryModal: React.FC<GameLibraryModalProps> = ({ isOpen, onClose, onOpenGame, onDownloadGame }) => {
+  const [games, setGames] = useState<LibraryGame[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setGames(await listGames());
+      setError(null);
+    } catch (e) {
+      console.error('Game library error', e);
+      setError("Your game library isn't available in this browser.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+    setFilter('');
+    setTagDrafts({});
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const updateTags = async (game: LibraryGame, tags: string[]) => {
+    await setGameTags(game.id, tags);
+    setGames(prev => prev.map(g => g.id === game.id ? { ...g, tags } : g));
+  };
+
+  const addTag = (game: LibraryGame) => {
+    const tag = (tagDrafts[game.id] || '').trim();
+    setTagDrafts(prev => ({ ...prev, [game.id]: '' }));
+    if (!tag || game.tags.includes(tag)) return;
+    updateTags(game, [...game.tags, tag]);
+  };
+
+  const handleDelete = async (game: LibraryGame) => {
+    if (!window.confirm('Delete this game from your library?')) return;
+    await deleteGame(game.id);
+    setGames(prev => prev.filter(g => g.id !== game.id));
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? games.filter(g => [g.opponent, g.black, g.result || '', ...g.tags].some(text => text.toLowerCase().includes(query)))
+    : games;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="absolute inset-0" onClick={onClose}></div>
+
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col relative z-10 animate-in zoom-in-95 duration-200 overflow-hidden">
+
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-3">
+            <div className="text-3xl">📚</div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">My Games</h2>
+              <p className="text-sm text-slate-500">Saved on this device</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-200 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 pt-4">
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search by opponent, result or tag"
+            className="w-full bg-slate-50 border border-slate-300 text-slate-700 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-2"
+          />
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="overflow-y-auto p-6 space-y-3">
+          {loading && <p className="text-sm text-slate-500">Loading…</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!loading && !error && visible.length === 0 && (
+            <p className="text-sm text-slate-500">
+              {games.length === 0 ? 'No saved games yet. Press Save to keep the game you are playing.' : 'No games match your search.'}
+            </p>
+          )}
+
+          {visible.map(game => (
+            <div key={game.id} className="flex gap-4 p-3 rounded-xl border border-slate-200 hover:border-indigo-200 transition-colors">
+              <BoardThumbnail size={game.size} position={game.thumbnail} />
+
+              <div className="flex-1 min-w-0 flex flex-col gap-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-slate-800 truncate">vs {game.opponent}</span>
+                  {game.result && (
+                    <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs font-bold border border-indigo-100 shrink-0">
+                      {game.result}
+                    </span>
+                  )}
+                </div>
+                <span className="text-xs text-slate-500">
+                  {new Date(game.savedAt).toLocaleString()} · {game.size}x{game.size} · {game.moveCount} moves
+                </span>
+
+                <div className="flex flex-wrap items-center gap-1">
+                  {game.tags.map(tag => (
+                    <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-bold">
+                      {tag}
+                      <button onClick={() => updateTags(game, game.tags.filter(t => t !== tag))} className="text-slate-400 hover:text-slate-700" title="Remove tag">×</button>
+                    </span>
+                  ))}
+                  <input
+                    value={tagDrafts[game.id] || ''}
+                    onChange={(e) => setTagDrafts(prev => ({ ...prev, [game.id]: e.target.value }))}
+                    onKeyDown={(e) => { if (e.key === 'Enter') addTag(game); }}
+                    placeholder="+ tag"
+                    className="w-20 px-2 py-0.5 text-xs border border-slate-200 rounded-full focus:outline-none focus:border-indigo-300"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-1 shrink-0">
+                <button
+                  onClick={() => onOpenGame(game)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition-all active:scale-95"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => onDownloadGame(game)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 transition-all"
+                >
+                  .sgf
+                </button>
+                <button
+                  onClick={() => handleDelete(game)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white text-red-600 border border-slate-200 hover:bg-red-50 transition-all"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -26,14 +26,25 @@ export const GameOverModal: React.FC<GameOverModalProps> = ({ isOpen, result, on
     scoreArea = (
         <div className="py-4 bg-indigo-50 rounded-xl border border-indigo-100">
             <p className="text-2xl font-bold text-indigo-700">
-            {winnerName} wins
+            {winner ? `${winnerName} wins` : 'Jigo'}
             </p>
             <p className="text-indigo-600 font-medium">
-            by {score?.diff ?? 0} points
+            {winner ? `by ${score?.diff ?? 0} points` : 'The game is a draw'}
             </p>
+            {score && (score.scoring === 'TERRITORY' ? (
+            <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-indigo-700 font-medium">
+                <div>⚫ {score.blackTerritory} area + {score.blackPrisoners} prisoners = <b>{score.blackTotal}</b></div>
+                <div>⚪ {score.whiteTerritory} area + {score.whitePrisoners} prisoners{score.komi ? ` + ${score.komi} komi` : ''} = <b>{score.whiteTotal}</b></div>
+            </div>
+            ) : (
+            <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-indigo-700 font-medium">
+                <div>⚫ {score.blackStones} stones + {score.blackTerritory} area = <b>{score.blackTotal}</b></div>
+                <div>⚪ {score.whiteStones} stones + {score.whiteTerritory} area{score.komi ? ` + ${score.komi} komi` : ''} = <b>{score.whiteTotal}</b></div>
+            </div>
+            ))}
             <div className="mt-2 pt-2 border-t border-indigo-200/50">
             <p className="text-[10px] text-indigo-400 uppercase tracking-widest font-bold">
-                Chinese Area Scoring
+                {score?.scoring === 'TERRITORY' ? 'Territory Scoring' : 'Area Scoring'}
             </p>
             </div>
         </div>
@@ -3,7 +3,7 @@ import React, { useState, useRef, useMemo } from 'react';
 import { BoardState, Coordinate, Marker, StoneColor, InfluenceMap } from '../types';
 import { StoneComponent } from './StoneComponent';
 import { getColLabel, getRowLabel } from '../services/gtpUtils';
-import { calculateStoneFaces } from '../services/gameLogic';
+import { calculateStoneFaces, getStarPoints } from '../services/gameLogic';
 
 interface GoBoardProps {
   board: BoardState;
@@ -16,6 +16,8 @@ interface GoBoardProps {
   highlightedMoveIndex?: number | null;
   influenceMap?: InfluenceMap | null;
   showStoneFaces?: boolean;
+  deadStones?: Set<string>; // Scoring phase: stones marked dead (drawn faded)
+  territory?: Map<string, StoneColor> | null; // Scoring phase: live territory preview
 }
 
 export const GoBoard: React.FC<GoBoardProps> = ({ 
@@ -27,7 +29,9 @@ export const GoBoard: React.FC<GoBoardProps> = ({
   isWaitingForCorrection = false,
   highlightedMoveIndex = null,
   influenceMap = null,
-  showStoneFaces = false
+  showStoneFaces = false,
+  deadStones,
+  territory = null
 }) => {
   const { size, stones, lastMove, history } = board;
   const [hoverCoord, setHoverCoord] = useState<Coordinate | null>(null);
@@ -43,6 +47,7 @@ export const GoBoard: React.FC<GoBoardProps> = ({
   const stoneMoveIndexMap = useMemo(() => {
     const map = new Map<string, number>();
     history.forEach((h, index) => {
+        if (h.type !== 'PLAY') return;
         const key = `${h.coordinate.x},${h.coordinate.y}`;
         if (board.stones.has(key) && board.stones.get(key) === h.color) {
              map.set(key, index + 1);
@@ -51,13 +56,7 @@ export const GoBoard: React.FC<GoBoardProps> = ({
     return map;
   }, [stones, history, board]);
 
-  const getStarPoints = () => {
-      if (size === 9) return [[2,2], [6,2], [4,4], [2,6], [6,6]];
-      if (size === 13) return [[3,3], [9,3], [6,6], [3,9], [9,9]];
-      if (size === 19) return [[3,3], [9,3], [15,3], [3,9], [9,9], [15,9], [3,15], [9,15], [15,15]];
-      return [];
-  };
-  const starPoints = getStarPoints();
+  const starPoints = useMemo(() => getStarPoints(size), [size]);
 
   const getGridCoord = (e: React.PointerEvent<HTMLDivElement> | PointerEvent): Coordinate | null => {
       if (!boardRef.current) return null;
@@ -119,7 +118,7 @@ export const GoBoard: React.FC<GoBoardProps> = ({
         const isHovered = hoverCoord?.x === x && hoverCoord?.y === y;
         const face = stoneFaces.get(key);
 
-        let opacity = 1;
+        let opacity = deadStones?.has(key) ? 0.45 : 1;
         let isHighlightedMove = false;
         
         if (highlightedMoveIndex !== null && stoneColor) {
@@ -189,6 +188,27 @@ export const GoBoard: React.FC<GoBoardProps> = ({
     });
   };
 
+  const renderTerritory = () => {
+    if (!territory) return null;
+    return Array.from(territory.entries()).map(([key, owner]) => {
+        const [x, y] = key.split(',').map(Number);
+        return (
+            <div
+                key={`terr-${key}`}
+                className="absolute flex items-center justify-center pointer-events-none"
+                style={{
+                    left: `${(x / size) * 100}%`,
+                    top: `${(y / size) * 100}%`,
+                    width: `${100 / size}%`,
+                    height: `${100 / size}%`
+                }}
+            >
+                <div className={`w-[35%] h-[35%] rounded-sm shadow-sm ${owner === 'BLACK' ? 'bg-slate-900' : 'bg-white border border-slate-400'}`} />
+            </div>
+        );
+    });
+  };
+
   return (
     <div className="flex flex-col items-center">
         <div className="relative inline-block bg-[#F2B06D] rounded-[4px] shadow-xl select-none p-1 sm:p-2 lg:p-3">
@@ -222,13 +242,14 @@ export const GoBoard: React.FC<GoBoardProps> = ({
                         <line x1={i + 0.5} y1="0.5" x2={i + 0.5} y2={size - 0.5} stroke="#5E4024" strokeWidth="0.04" />
                     </g>
                     ))}
-                    {starPoints.map(([x, y], idx) => (
+                    {starPoints.map(({ x, y }, idx) => (
                         <circle key={`star-${idx}`} cx={x + 0.5} cy={y + 0.5} r="0.08" fill="#5E4024" />
                     ))}
                 </svg>
 
                 <div className="absolute inset-0 z-10">{renderInfluence()}</div>
                 <div className="absolute inset-0 z-30 pointer-events-none">{renderCells()}</div>
+                <div className="absolute inset-0 z-40 pointer-events-none">{renderTerritory()}</div>
                 {isWaitingForCorrection && (
                     <div className="absolute inset-0 z-40 bg-black/20 pointer-events-auto" />
                 )}
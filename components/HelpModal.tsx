@@ -121,10 +121,10 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
             <div>
               <h3 className="font-bold text-slate-800 text-lg">Tools & Modes</h3>
               <ul className="mt-2 grid grid-cols-2 gap-2 text-sm text-slate-600">
-                <li><strong>Undo/Redo:</strong> Navigate history freely.</li>
-                <li><strong>Setup Mode:</strong> Place stones freely to create puzzles or "what-if" scenarios.</li>
+                <li><strong>Undo/Redo:</strong> Navigate history freely. A new move after Undo starts a variation; the old line is kept.</li>
+                <li><strong>Setup Mode:</strong> Place stones freely to create puzzles or "what-if" scenarios. <strong>Paste</strong> loads a <code>$$</code> text diagram copied from a forum.</li>
                 <li><strong>Force AI:</strong> Make the AI play immediately if it's waiting.</li>
-                <li><strong>Save/Load:</strong> Export games to SGF files to review later.</li>
+                <li><strong>Save/Load:</strong> Export games to SGF files to review later. Saved games also appear under 📚 Games, and the game you're playing is kept even if you close the page.</li>
               </ul>
             </div>
           </div>
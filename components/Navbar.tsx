@@ -1,7 +1,7 @@
 
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { BoardState } from '../types';
-import { toGtpCoordinate } from '../services/gtpUtils';
+import { toGtpMoveList } from '../services/gnugoService';
 
 interface NavbarProps {
   board: BoardState;
@@ -11,6 +11,9 @@ interface NavbarProps {
   onReset: () => void;
   onSave: () => void;
   onLoadFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onOpenLibrary: () => void;
+  onExportDiagram: () => void;
+  onCopyLink: () => Promise<boolean>;
   onCopyGnu: (msg: string) => void;
   onHelp: () => void;
 }
@@ -23,27 +26,33 @@ export const Navbar: React.FC<NavbarProps> = ({
   onReset,
   onSave,
   onLoadFile,
+  onOpenLibrary,
+  onExportDiagram,
+  onCopyLink,
   onCopyGnu,
   onHelp
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const handleLoadGameTrigger = () => {
     fileInputRef.current?.click();
   };
 
   const handleCopyGnuArray = () => {
-    const moves = board.history.map(h => {
-        const color = h.color === 'BLACK' ? 'B' : 'W';
-        const coord = toGtpCoordinate(h.coordinate, board.size);
-        return `${color} ${coord}`;
-    });
+    const moves = toGtpMoveList(board);
     
     const output = JSON.stringify(moves, null, 2);
     navigator.clipboard.writeText(output);
     onCopyGnu("Copied game array to clipboard!");
   };
 
+  const handleCopyLink = async () => {
+    if (!(await onCopyLink())) return;
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
   const isDev = typeof window !== 'undefined' && (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
 
   return (
@@ -77,7 +86,35 @@ export const Navbar: React.FC<NavbarProps> = ({
                 >
                     Save
                 </button>
+                <button 
+                    onClick={handleLoadGameTrigger} 
+                    className="hidden sm:block px-3 py-1.5 rounded-lg text-xs font-bold transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"
+                >
+                    Load
+                </button>
+                <button 
+                    onClick={onOpenLibrary} 
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"
+                    title="My Games"
+                >
+                    📚 <span className="hidden sm:inline">Games</span>
+                </button>
+                <button 
+                    onClick={onExportDiagram} 
+                    className="hidden sm:block px-3 py-1.5 rounded-lg text-xs font-bold transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"
+                    title="Export board diagram"
+                >
+                    Diagram
+                </button>
                 
+                <button 
+                    onClick={handleCopyLink} 
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"
+                    title="Copy a link to this game"
+                >
+                    {linkCopied ? '✅' : '🔗'} <span className="hidden sm:inline">{linkCopied ? 'Copied!' : 'Link'}</span>
+                </button>
+
                 {isDev && (
                     <button 
                         onClick={handleCopyGnuArray} 
@@ -91,7 +128,7 @@ export const Navbar: React.FC<NavbarProps> = ({
                     type="file" 
                     ref={fileInputRef} 
                     onChange={onLoadFile} 
-                    accept=".sgf" 
+                    accept=".sgf,.gib,.ngf,.ugf" 
                     className="hidden" 
                 />
             </div>
@@ -1,24 +1,40 @@
 
 import React from 'react';
-import { BoardState, GameResult } from '../types';
+import { BoardState, GameResult, PositionEstimate } from '../types';
 
 interface ScoreBarProps {
     board: BoardState;
     gameResult: GameResult | null;
+    estimate?: PositionEstimate | null;
 }
 
-export const ScoreBar: React.FC<ScoreBarProps> = ({ board, gameResult }) => {
+// e.g. "Black is ahead by ~5 (78%)"
+const describeEstimate = ({ scoreLead, blackWinRate }: PositionEstimate): string => {
+    const lead = Math.round(Math.abs(scoreLead));
+    if (lead === 0) return 'Even game';
+    const leader = scoreLead > 0 ? 'Black' : 'White';
+    const winRate = scoreLead > 0 ? blackWinRate : 1 - blackWinRate;
+    return `${leader} is ahead by ~${lead} (${Math.round(winRate * 100)}%)`;
+};
+
+export const ScoreBar: React.FC<ScoreBarProps> = ({ board, gameResult, estimate }) => {
     return (
         <div className="w-full text-sm items-center justify-between flex"> 
             <div className="text-sm font-bold text-slate-500">
                     {board.gameOver ? (
                     <span>
-                        {gameResult?.winner === 'BLACK' ? 'Black wins ' : 'White wins '}
-                        by {gameResult.score.diff} points!
+                        {gameResult && !gameResult.winner ? 'Jigo!' : (
+                            `${gameResult?.winner === 'BLACK' ? 'Black' : 'White'} wins by ${gameResult?.score?.diff} points!`
+                        )}
                     </span>
                 ) : (
                     <span>
                         {board.turn === 'BLACK' ? "Your Turn" : "AI Turn"}
+                        {estimate && (
+                            <span className="ml-2 font-medium text-slate-400" title={`Offline estimate from ${estimate.playouts.toLocaleString()} playouts`}>
+                                · {describeEstimate(estimate)}
+                            </span>
+                        )}
                     </span>
                 )}
             </div>
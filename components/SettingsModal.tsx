@@ -1,6 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { GamePhase } from '../types';
+import { GamePhase, RuleSet, RuleSetId } from '../types';
+import { RULE_SETS, KOMI_OPTIONS, HANDICAP_OPTIONS } from '../services/ruleSets';
+import { BOARD_SIZE_PRESETS, MIN_BOARD_SIZE, MAX_BOARD_SIZE, getMaxFixedHandicap } from '../services/gameLogic';
+import { isGnuGoBoardSize, GNUGO_MAX_BOARD_SIZE, DEFAULT_GNUGO_URL } from '../services/gnugoService';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -16,8 +19,19 @@ interface SettingsModalProps {
   boardSize: number;
   onBoardSizeChange: (size: number) => void;
   hasProgress: boolean;
+  ruleSet: RuleSet;
+  onRuleSetChange: (rules: RuleSet) => void;
+  handicap: number;
+  onHandicapChange: (handicap: number) => void;
+  gnugoEndpoint: string;
+  onGnuGoEndpointChange: (url: string) => void;
+  localEngineName: string | null;
+  onConnectLocalEngine: (url: string) => Promise<void>;
+  onDisconnectLocalEngine: () => void;
 }
 
+const DEFAULT_BRIDGE_URL = 'ws://localhost:8765';
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
@@ -31,17 +45,44 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onToggleStoneFaces,
   boardSize,
   onBoardSizeChange,
-  hasProgress
+  hasProgress,
+  ruleSet,
+  onRuleSetChange,
+  handicap,
+  onHandicapChange,
+  gnugoEndpoint,
+  onGnuGoEndpointChange,
+  localEngineName,
+  onConnectLocalEngine,
+  onDisconnectLocalEngine
 }) => {
   const [pendingSize, setPendingSize] = useState<number | null>(null);
+  const [endpointDraft, setEndpointDraft] = useState(gnugoEndpoint);
+  const [bridgeUrl, setBridgeUrl] = useState(DEFAULT_BRIDGE_URL);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectError, setConnectError] = useState<string | null>(null);
 
   // Reset internal state when modal opens/closes
   useEffect(() => {
     setPendingSize(null);
-  }, [isOpen]);
+    setEndpointDraft(gnugoEndpoint);
+    setConnectError(null);
+  }, [isOpen, gnugoEndpoint]);
 
   if (!isOpen) return null;
 
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    setConnectError(null);
+    try {
+      await onConnectLocalEngine(bridgeUrl.trim());
+    } catch (e) {
+      setConnectError(e instanceof Error && e.message ? e.message : 'Connection failed');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
   const currentDisplaySize = pendingSize || boardSize;
 
   return (
@@ -74,11 +115,11 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </span>
             </div>
             <div className="flex gap-2 p-1 bg-slate-100 rounded-xl border border-slate-200">
-              {[9, 13, 19].map((size) => (
+              {BOARD_SIZE_PRESETS.map((size) => (
                 <button
                   key={size}
                   onClick={() => setPendingSize(size)}
-                  className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${
+                  className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${
                     currentDisplaySize === size 
                       ? 'bg-indigo-600 text-white shadow-md' 
                       : 'text-slate-500 hover:bg-slate-200'
@@ -88,6 +129,23 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 </button>
               ))}
             </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-500">Other size</span>
+              <select
+                value={currentDisplaySize}
+                onChange={(e) => setPendingSize(parseInt(e.target.value, 10))}
+                className="bg-slate-50 border border-slate-300 text-slate-700 text-xs rounded-lg p-1.5 font-bold"
+              >
+                {Array.from({ length: MAX_BOARD_SIZE - MIN_BOARD_SIZE + 1 }, (_, i) => MIN_BOARD_SIZE + i).map(size => (
+                  <option key={size} value={size}>{size}x{size}</option>
+                ))}
+              </select>
+            </div>
+            {!isGnuGoBoardSize(currentDisplaySize) && (
+              <span className="text-[11px] text-slate-500">
+                GNU Go only plays up to {GNUGO_MAX_BOARD_SIZE}x{GNUGO_MAX_BOARD_SIZE}; the local engine plays instead and hints are off.
+              </span>
+            )}
 
             {/* Confirmation Area */}
             {pendingSize !== null && pendingSize !== boardSize && (
@@ -118,6 +176,145 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
           <div className="h-px bg-slate-100 w-full" />
 
+          {/* Rules */}
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-bold text-slate-700">Rules</span>
+              <span className="text-xs text-slate-500">
+                {ruleSet.scoring === 'AREA' ? 'Area counting (stones + space)' : 'Territory counting (space + prisoners)'}
+                {ruleSet.koRule !== 'SIMPLE' ? ', superko' : ''}
+                {ruleSet.allowSuicide ? ', suicide allowed' : ''}
+                {ruleSet.passStones ? ', pass stones' : ''}
+              </span>
+            </div>
+            <div className="grid grid-cols-4 gap-1 p-1 bg-slate-100 rounded-xl border border-slate-200">
+              {(Object.keys(RULE_SETS) as RuleSetId[]).map((id) => (
+                <button
+                  key={id}
+                  onClick={() => onRuleSetChange({ ...RULE_SETS[id], komi: ruleSet.komi })}
+                  className={`py-2 text-[11px] font-bold rounded-lg transition-all ${
+                    ruleSet.id === id 
+                      ? 'bg-indigo-600 text-white shadow-md' 
+                      : 'text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {RULE_SETS[id].name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-500">Komi (White's bonus points)</span>
+              <select
+                value={ruleSet.komi}
+                onChange={(e) => onRuleSetChange({ ...ruleSet, komi: parseFloat(e.target.value) })}
+                className="bg-slate-50 border border-slate-300 text-slate-700 text-xs rounded-lg p-1.5 font-bold"
+              >
+                {Array.from(new Set([...KOMI_OPTIONS, RULE_SETS[ruleSet.id].komi, ruleSet.komi])).sort((a, b) => a - b).map(k => (
+                  <option key={k} value={k}>{k}{k === RULE_SETS[ruleSet.id].komi ? ' (standard)' : ''}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="h-px bg-slate-100 w-full" />
+
+          {/* Handicap */}
+          <div className="flex items-center justify-between">
+            <div className="flex flex-col">
+              <span className="font-bold text-slate-700">Handicap</span>
+              <span className="text-xs text-slate-500">
+                {getMaxFixedHandicap(boardSize) > 0
+                  ? 'Extra Black stones on the star points. Starts a new game; White plays first.'
+                  : `No star points for handicap stones on ${boardSize}x${boardSize}. Place them in Setup Mode instead.`}
+              </span>
+            </div>
+            <select
+              value={handicap}
+              onChange={(e) => onHandicapChange(parseInt(e.target.value, 10))}
+              className="bg-slate-50 border border-slate-300 text-slate-700 text-xs rounded-lg p-1.5 font-bold"
+            >
+              {HANDICAP_OPTIONS.filter(h => h <= getMaxFixedHandicap(boardSize) || h === handicap).map(h => (
+                <option key={h} value={h}>{h === 0 ? 'None' : `${h} stones`}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="h-px bg-slate-100 w-full" />
+
+          {/* GNU Go Server */}
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-bold text-slate-700">GNU Go Server</span>
+              <span className="text-xs text-slate-500">
+                {gnugoEndpoint === DEFAULT_GNUGO_URL ? 'Plays GNU Go levels and gives hints.' : 'Using a custom server for GNU Go and hints.'}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={endpointDraft}
+                onChange={(e) => setEndpointDraft(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-50 border border-slate-300 text-slate-700 text-xs rounded-lg p-1.5 font-mono"
+              />
+              {endpointDraft.trim() !== gnugoEndpoint ? (
+                <button
+                  onClick={() => onGnuGoEndpointChange(endpointDraft)}
+                  className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-lg transition-colors"
+                >
+                  Save
+                </button>
+              ) : gnugoEndpoint !== DEFAULT_GNUGO_URL && (
+                <button
+                  onClick={() => onGnuGoEndpointChange(DEFAULT_GNUGO_URL)}
+                  className="px-3 py-1.5 bg-white border border-slate-300 text-slate-600 text-xs font-bold rounded-lg hover:bg-slate-100 transition-colors"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="h-px bg-slate-100 w-full" />
+
+          {/* Local Engine */}
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="font-bold text-slate-700">Local Engine</span>
+              <span className="text-xs text-slate-500">
+                {localEngineName
+                  ? `${localEngineName} is in the opponent menu.`
+                  : 'Play a GTP engine on this network, started with scripts/gtp-bridge.js.'}
+              </span>
+            </div>
+            {localEngineName ? (
+              <button
+                onClick={onDisconnectLocalEngine}
+                className="py-2 bg-white border border-slate-300 text-slate-600 text-xs font-bold rounded-lg hover:bg-slate-100 transition-colors"
+              >
+                Disconnect
+              </button>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={bridgeUrl}
+                  onChange={(e) => setBridgeUrl(e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-300 text-slate-700 text-xs rounded-lg p-1.5 font-mono"
+                />
+                <button
+                  onClick={handleConnect}
+                  disabled={isConnecting || !bridgeUrl.trim()}
+                  className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-xs font-bold rounded-lg transition-colors"
+                >
+                  {isConnecting ? 'Connecting…' : 'Connect'}
+                </button>
+              </div>
+            )}
+            {connectError && <span className="text-[11px] text-red-600">{connectError}</span>}
+          </div>
+
+          <div className="h-px bg-slate-100 w-full" />
+
           {/* Socratic Coach */}
           <div className="flex items-center justify-between">
             <div className="flex flex-col">
@@ -150,7 +347,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
           <div className="flex items-center justify-between">
             <div className="flex flex-col">
               <span className="font-bold text-slate-700">Influence Heatmap</span>
-              <span className="text-xs text-slate-500">Visualize board control.</span>
+              <span className="text-xs text-slate-500">Expected territory, estimated offline.</span>
             </div>
             <button 
               onClick={onToggleInfluence}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { MoveHistory } from '../types';
+import { VariationInfo } from '../services/gameTree';
+import { toGtpMove } from '../services/gtpUtils';
+
+interface VariationSelectorProps {
+    boardSize: number;
+    variations: VariationInfo[]; // Alternatives to the current move
+    continuations: VariationInfo[]; // Moves that follow the current position
+    onMainLine: boolean;
+    onSelect: (nodeId: string) => void;
+    onStep: (delta: number) => void;
+    onBackToMainLine: () => void;
+}
+
+const moveLabel = (move: MoveHistory | null, size: number): string => {
+    if (!move) return 'Setup';
+    return `${move.color === 'BLACK' ? '⚫' : '⚪'} ${toGtpMove(move, size)}`;
+};
+
+// Shown only when the game tree branches at (or just after) the current position
+export const VariationSelector: React.FC<VariationSelectorProps> = ({
+    boardSize,
+    variations,
+    continuations,
+    onMainLine,
+    onSelect,
+    onStep,
+    onBackToMainLine
+}) => {
+    const currentIndex = variations.findIndex(v => v.isCurrent);
+    const hasSiblings = variations.length > 1;
+    const hasBranches = continuations.length > 1;
+    if (!hasSiblings && !hasBranches && onMainLine) return null;
+
+    return (
+        <div className="w-full flex flex-wrap items-center gap-2 px-3 py-2 bg-indigo-50 border border-indigo-100 rounded-xl text-xs font-bold text-indigo-700">
+            {hasSiblings && (
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => onStep(-1)}
+                        className="px-2 py-1 bg-white border border-indigo-200 rounded-md hover:bg-indigo-100 transition-all active:scale-95"
+                        title="Previous variation"
+                    >
+                        ◀
+                    </button>
+                    <span className="px-1 whitespace-nowrap">
+                        {currentIndex === 0 ? 'Main line' : `Variation ${currentIndex}`} ({currentIndex + 1}/{variations.length}): {moveLabel(variations[currentIndex].move, boardSize)}
+                    </span>
+                    <button
+                        onClick={() => onStep(1)}
+                        className="px-2 py-1 bg-white border border-indigo-200 rounded-md hover:bg-indigo-100 transition-all active:scale-95"
+                        title="Next variation"
+                    >
+                        ▶
+                    </button>
+                </div>
+            )}
+
+            {hasBranches && (
+                <div className="flex items-center gap-1 flex-wrap">
+                    <span className="text-indigo-500">Next:</span>
+                    {continuations.map(c => (
+                        <button
+                            key={c.id}
+                            onClick={() => onSelect(c.id)}
+                            className={`px-2 py-1 rounded-md border transition-all active:scale-95 ${
+                                c.isMainLine
+                                    ? 'bg-indigo-600 text-white border-indigo-600'
+                                    : 'bg-white border-indigo-200 hover:bg-indigo-100'
+                            }`}
+                        >
+                            {moveLabel(c.move, boardSize)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {!onMainLine && (
+                <button
+                    onClick={onBackToMainLine}
+                    className="ml-auto px-3 py-1 bg-white border border-indigo-200 rounded-md hover:bg-indigo-100 transition-all active:scale-95"
+                >
+                    Back to main line
+                </button>
+            )}
+        </div>
+    );
+};
@@ -1,19 +1,37 @@
 
 import { useState, useRef, useCallback } from 'react';
-import { BoardState, ChatMessage, Coordinate, EngineStatus, Marker, AnalysisMove, StoneColor } from '../types';
-import { getGeminiMove } from '../services/geminiEngine';
-import { fetchGnuGoMove } from '../services/gnugoService';
-import { generateMove, getLevelSimulations } from '../services/simpleAi';
+import { BoardState, ChatMessage, Coordinate, EngineStatus, EngineProgress, Marker, AnalysisMove, StoneColor } from '../types';
+import { getEngine } from '../services/engines';
 import { getSenseiResponse, getBadMoveFeedback } from '../services/aiService';
 import { placeStone } from '../services/gameLogic';
+import { HttpError, HTTP_TIMEOUT, HTTP_STATUS_ERROR, NETWORK_ERROR } from '../services/httpClient';
+import { GTP_ERROR } from '../services/gtpClient';
+
+// What to tell the student when the opponent engine fails, by error type
+const engineErrorMessage = (e: unknown): string => {
+    if (!(e instanceof Error)) return "I'm having trouble connecting to the game server. Please try again.";
+    switch (e.name) {
+        case HTTP_TIMEOUT:
+            return "The game server is taking too long to answer. Press Force AI to try again.";
+        case NETWORK_ERROR:
+            return "I can't reach the game server. Check your connection, or the GNU Go server address in Settings.";
+        case HTTP_STATUS_ERROR:
+            return `The game server reported an error (${(e as HttpError).status}). Please try again in a moment.`;
+        case GTP_ERROR:
+            return `The local engine couldn't play: ${e.message}`;
+        default:
+            return "I'm having trouble connecting to the game server. Please try again.";
+    }
+};
 
 interface AiCoachProps {
-    addMessage: (sender: 'user' | 'sensei', text: string) => void;
+    addMessage: (sender: 'user' | 'sensei', text: string, markers?: Marker[]) => void;
     setPreviewDismissed: (d: boolean) => void;
 }
 
 export const useAiCoach = ({ addMessage, setPreviewDismissed }: AiCoachProps) => {
     const [engineStatus, setEngineStatus] = useState<EngineStatus>('READY');
+    const [engineProgress, setEngineProgress] = useState<EngineProgress | null>(null);
     const [isSenseiThinking, setIsSenseiThinking] = useState(false);
     const [activeMarkers, setActiveMarkers] = useState<Marker[]>([]);
     const [sessionCost, setSessionCost] = useState<number>(0);
@@ -27,6 +45,8 @@ export const useAiCoach = ({ addMessage, setPreviewDismissed }: AiCoachProps) =>
     // Refs for aborting async operations
     const abortControllerRef = useRef<AbortController | null>(null);
     const feedbackAbortController = useRef<AbortController | null>(null);
+    // Fallback notices already shown (e.g. per board size the engine can't play), so they aren't repeated every move
+    const shownFallbackNoticesRef = useRef<Set<string>>(new Set());
 
     const cancelAiMove = useCallback(() => {
         if (abortControllerRef.current) {
@@ -60,12 +80,13 @@ export const useAiCoach = ({ addMessage, setPreviewDismissed }: AiCoachProps) =>
         callbacks: {
             applyMove: (newState: BoardState, fromState?: BoardState) => void,
             passTurn: () => Promise<any>,
-            endGameWithScore: (board: BoardState) => Promise<any>
+            resign: (winner: StoneColor) => Promise<any>
         }
     ) => {
         if (currentBoard.gameOver) return;
         
         setEngineStatus('THINKING');
+        setEngineProgress(null);
         
         if (abortControllerRef.current) {
             abortControllerRef.current.abort();
@@ -74,89 +95,49 @@ export const useAiCoach = ({ addMessage, setPreviewDismissed }: AiCoachProps) =>
         abortControllerRef.current = controller;
 
         try {
-            let move: Coordinate | null = null;
-            let explanation: string | null = null;
-            let moveCost = 0;
-            let aiResigned = false;
-            let aiPassed = false;
-
-            if (typeof opponentModel === 'string') {
-                if (opponentModel.startsWith('gnugo')) {
-                    // GNU Go
-                    const parts = opponentModel.split('_');
-                    const level = parts.length > 1 ? parseInt(parts[1], 10) : 10;
-                    
-                    const result = await fetchGnuGoMove(currentBoard, level);
-                    if (controller.signal.aborted) return;
-                    
-                    if (result.isResign) {
-                        aiResigned = true;
-                        explanation = "GNU Go resigns.";
-                    } else if (result.isPass) {
-                        aiPassed = true;
-                        explanation = "GNU Go passes.";
-                    } else {
-                        move = result.move;
-                        explanation = `GNU Go (Level ${level}) plays.`;
-                    }
-                } else {
-                    // Gemini
-                    const result = await getGeminiMove(currentBoard, opponentModel);
-                    if (controller.signal.aborted) return;
+            const engine = getEngine(opponentModel);
+            if (!engine) throw new Error(`Unknown engine: ${opponentModel}`);
 
-                    if (result) {
-                        if (result.isResign) {
-                            aiResigned = true;
-                            explanation = result.reason;
-                            moveCost = result.cost;
-                        } else if (result.isPass) {
-                            aiPassed = true;
-                            explanation = result.reason;
-                            moveCost = result.cost;
-                        } else {
-                            move = result.move;
-                            explanation = result.reason;
-                            moveCost = result.cost;
-                        }
-                    }
-                }
-            } else {
-                // Monte Carlo
-                const simCount = getLevelSimulations(opponentModel);
-                move = await generateMove(currentBoard, simCount, controller.signal);
-                if (!move) aiPassed = true;
-            }
-            
+            const result = await engine.genmove(currentBoard, controller.signal, progress => {
+                if (!controller.signal.aborted) setEngineProgress(progress);
+            });
             if (controller.signal.aborted) return;
 
             setEngineStatus('READY');
-            if (moveCost > 0) setSessionCost(prev => prev + moveCost);
+            const move = result?.move;
+            const explanation = result?.explanation;
+            if (result?.cost) setSessionCost(prev => prev + result.cost!);
+            if (result?.fallbackNotice && !shownFallbackNoticesRef.current.has(result.fallbackNotice)) {
+                shownFallbackNoticesRef.current.add(result.fallbackNotice);
+                addMessage('sensei', result.fallbackNotice);
+            }
 
-            if (aiResigned) {
-                addMessage('sensei', `White Resigns. ${explanation || ''} Calculating final score...`);
-                const res = await callbacks.endGameWithScore(currentBoard);
-                addMessage('sensei', `Game Over! Black wins. (Score: +${res.score?.diff ?? 0}, Chinese Rules, Komi 0)`);
-            } else if (aiPassed) {
-                addMessage('sensei', "White passes.");
-                const { gameOver, result } = await callbacks.passTurn();
-                if (gameOver && result) {
-                    addMessage('sensei', `Game Over! ${result.winner === 'BLACK' ? 'Black' : 'White'} wins by ${result.score?.diff ?? 0} points.`);
+            const aiColor = currentBoard.turn === 'BLACK' ? 'Black' : 'White';
+            if (move?.type === 'RESIGN') {
+                const winner: StoneColor = currentBoard.turn === 'BLACK' ? 'WHITE' : 'BLACK';
+                addMessage('sensei', `${aiColor} Resigns. ${explanation || ''}`);
+                await callbacks.resign(winner);
+                addMessage('sensei', `Game Over! ${winner === 'BLACK' ? 'Black' : 'White'} wins by resignation.`);
+            } else if (move?.type === 'PASS') {
+                addMessage('sensei', `${aiColor} passes.`);
+                const { scoring } = await callbacks.passTurn();
+                if (scoring) {
+                    addMessage('sensei', "Both players passed! Time to count. Tap any groups you think are dead, then press Confirm Score.");
                 }
-            } else if (move) {
-                const aiState = placeStone(currentBoard, move!);
+            } else if (move?.type === 'PLAY') {
+                const aiState = placeStone(currentBoard, move.coordinate);
                 if (aiState) {
                     callbacks.applyMove(aiState, currentBoard); 
                 }
             }
-        } catch (e: any) {
-            if (e.message !== 'Aborted' && e.name !== 'AbortError') {
-                console.error("Engine Generate Error", e);
-                addMessage('sensei', "I'm having trouble connecting to the game server. Please try again.");
-            }
+        } catch (e) {
+            const aborted = e instanceof Error && (e.message === 'Aborted' || e.name === 'AbortError');
+            if (!aborted) addMessage('sensei', engineErrorMessage(e));
             setEngineStatus('READY');
         } finally {
             if (abortControllerRef.current === controller) {
                 abortControllerRef.current = null;
+                setEngineProgress(null);
             }
         }
     }, [addMessage]);
@@ -184,7 +165,7 @@ export const useAiCoach = ({ addMessage, setPreviewDismissed }: AiCoachProps) =>
         
         if (response.cost > 0) setSessionCost(prev => prev + response.cost);
         
-        addMessage('sensei', response.text);
+        addMessage('sensei', response.text, response.markers);
         
         if (response.markers) {
             setActiveMarkers(response.markers);
@@ -241,6 +222,7 @@ export const useAiCoach = ({ addMessage, setPreviewDismissed }: AiCoachProps) =>
 
     return {
         engineStatus,
+        engineProgress,
         isSenseiThinking,
         setIsSenseiThinking,
         activeMarkers,
@@ -1,22 +1,24 @@
 
 import { useState, useEffect } from 'react';
-import { BoardState, AnalysisMove, GamePhase } from '../types';
-import { fetchGnuGoHints } from '../services/gnugoService';
+import { BoardState, AnalysisMove, GamePhase, PositionEstimate } from '../types';
+import { getEngine, HINT_ENGINE_ID, ANALYSIS_ENGINE_ID } from '../services/engines';
 
-export const useAnalysis = (board: BoardState, gamePhase: GamePhase) => {
+export const useAnalysis = (board: BoardState, gamePhase: GamePhase, estimatePaused: boolean = false) => {
     const [analysisData, setAnalysisData] = useState<AnalysisMove[]>([]);
+    const [estimate, setEstimate] = useState<PositionEstimate | null>(null);
 
     useEffect(() => {
         let ignore = false;
+        const controller = new AbortController();
 
-        // Clear analysis on new moves, game over, or if we enter SETUP mode
-        if (board.gameOver || gamePhase === 'SETUP') {
+        // Clear analysis on new moves, game over, or if we enter SETUP / SCORING mode
+        if (board.gameOver || gamePhase === 'SETUP' || gamePhase === 'SCORING') {
             setAnalysisData([]);
             return;
         }
 
         const fetchHints = async () => {
-            const hints = await fetchGnuGoHints(board);
+            const hints = await getEngine(HINT_ENGINE_ID)?.hints?.(board, controller.signal) ?? [];
             if (!ignore) {
                 setAnalysisData(hints);
             }
@@ -26,8 +28,31 @@ export const useAnalysis = (board: BoardState, gamePhase: GamePhase) => {
 
         return () => {
             ignore = true;
+            controller.abort();
         };
     }, [board.history.length, board.gameOver, board.turn, board, gamePhase]);
 
-    return { analysisData, setAnalysisData };
+    // Ownership and who is ahead, from the offline engine. The last estimate stays up while the
+    // next one is computed, and none is started while the opponent engine needs the CPU.
+    useEffect(() => {
+        if (board.gameOver || gamePhase !== 'PLAY') {
+            setEstimate(null);
+            return;
+        }
+        setEstimate(previous => previous?.size === board.size ? previous : null);
+        if (estimatePaused) return;
+
+        const controller = new AbortController();
+        getEngine(ANALYSIS_ENGINE_ID)?.analyze?.(board, controller.signal)
+            .then(result => {
+                if (!controller.signal.aborted) setEstimate(result);
+            })
+            .catch(e => {
+                if (e.message !== 'Aborted') console.error("Position estimate error", e);
+            });
+
+        return () => controller.abort();
+    }, [board, gamePhase, estimatePaused]);
+
+    return { analysisData, setAnalysisData, estimate };
 };
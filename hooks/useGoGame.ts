@@ -1,16 +1,23 @@
 
-import { useState, useCallback, useEffect } from 'react';
-import { BoardState, Coordinate, GameResult, GamePhase, SetupTool, StoneColor } from '../types';
-import { createBoard, placeStone, setStone, calculateAreaScore } from '../services/gameLogic';
-
-export const useGoGame = (size: number = 9) => {
-    const [board, setBoard] = useState<BoardState>(createBoard(size));
-    const [historyStack, setHistoryStack] = useState<BoardState[]>([]);
-    const [redoStack, setRedoStack] = useState<BoardState[]>([]);
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { BoardState, Coordinate, GameResult, GamePhase, SetupTool, StoneColor, RuleSet } from '../types';
+import { createBoard, placeStone, tryPlaceStone, playPass, playResign, lastMoveWasPass, setStone, setPlayerToMove, toggleHandicapStone, getGroup, calculateScore, calculateTerritory, ILLEGAL_MOVE_MESSAGES } from '../services/gameLogic';
+import { DEFAULT_RULE_SET } from '../services/ruleSets';
+import {
+    GameTree, createGameTree, getCurrentBoard, updateCurrentBoard, addNode, goToNode,
+    goToParent, goToActiveChild, goToSiblingVariation, goToMainLine, canGoBack, canGoForward,
+    getVariations, getContinuations, isOnMainLine
+} from '../services/gameTree';
+
+export const useGoGame = (size: number = 9, rules: RuleSet = DEFAULT_RULE_SET, handicap: number = 0) => {
+    // The game tree is the single source of truth; `board` is the position at its current node
+    const [tree, setTree] = useState<GameTree>(() => createGameTree(createBoard(size, rules, handicap)));
+    const board = getCurrentBoard(tree);
     const [gameResult, setGameResult] = useState<GameResult | null>(null);
     const [gamePhase, setGamePhase] = useState<GamePhase>('PLAY');
     const [setupTool, setSetupTool] = useState<SetupTool>('ALTERNATE');
     const [confirmationPending, setConfirmationPending] = useState<'RESET' | 'RESIGN' | null>(null);
+    const [deadStones, setDeadStones] = useState<Set<string>>(new Set());
 
     // Auto-clear confirmation
     useEffect(() => {
@@ -20,14 +27,40 @@ export const useGoGame = (size: number = 9) => {
         }
     }, [confirmationPending]);
 
-    const pushHistory = (currentState: BoardState) => {
-        setHistoryStack(prev => [...prev, currentState]);
-        setRedoStack([]);
+    // Changes the current position in place (rules, turn, game over) without adding a move
+    const setBoard = useCallback((update: BoardState | ((prev: BoardState) => BoardState)) => {
+        setTree(prev => updateCurrentBoard(prev, typeof update === 'function' ? update(getCurrentBoard(prev)) : update));
+    }, []);
+
+    // Adds a move (or setup edit) below the node holding `fromState`, or below the current node.
+    // A new move after undo becomes a variation instead of discarding the redo line.
+    const commitMove = (nextState: BoardState, fromState?: BoardState) => {
+        setTree(prev => {
+            let parentId = prev.currentId;
+            if (fromState) {
+                prev.nodes.forEach(node => { if (node.board === fromState) parentId = node.id; });
+            }
+            return addNode(prev, nextState, parentId);
+        });
     };
 
     const playMove = useCallback((c: Coordinate): { success: boolean, newState?: BoardState, message?: string } => {
         if (board.gameOver) return { success: false };
 
+        // Scoring: tapping a stone toggles its whole group dead/alive
+        if (gamePhase === 'SCORING') {
+             const color = board.stones.get(`${c.x},${c.y}`);
+             if (!color) return { success: false };
+             const { group } = getGroup(board.stones, c, color, board.size);
+             setDeadStones(prev => {
+                 const next = new Set(prev);
+                 const markDead = !prev.has(`${c.x},${c.y}`);
+                 group.forEach(key => markDead ? next.add(key) : next.delete(key));
+                 return next;
+             });
+             return { success: true, newState: board };
+        }
+
         // Setup Mode
         if (gamePhase === 'SETUP') {
              let nextState = board;
@@ -40,123 +73,149 @@ export const useGoGame = (size: number = 9) => {
                  nextState = setStone(board, c, 'WHITE');
              } else if (setupTool === 'CLEAR') {
                  nextState = setStone(board, c, null);
+             } else if (setupTool === 'HANDICAP') {
+                 nextState = toggleHandicapStone(board, c);
              }
-             setBoard(nextState);
+             // Setup edits are undoable like moves
+             if (nextState !== board) commitMove(nextState, board);
              return { success: true, newState: nextState };
         }
 
         // Play Mode
         if (board.stones.has(`${c.x},${c.y}`)) return { success: false };
 
-        const nextState = placeStone(board, c);
+        const attempt = tryPlaceStone(board, c);
         
-        // Suicide check
-        if (!nextState) {
-            return { success: false, message: "That move isn't allowed (Suicide rule)." };
+        // Suicide / ko check
+        if (!attempt.state) {
+            return { success: false, message: ILLEGAL_MOVE_MESSAGES[attempt.reason] };
         }
+        const nextState = attempt.state;
 
-        pushHistory(board);
-        setBoard(nextState);
+        commitMove(nextState, board);
         return { success: true, newState: nextState };
     }, [board, gamePhase, setupTool]);
 
     // Apply an external move (e.g. AI). 
     // `fromState` allows passing the board state explicitly to fix stale closure issues in async calls.
     const applyMove = useCallback((newState: BoardState, fromState?: BoardState) => {
-        pushHistory(fromState || board);
-        setBoard(newState);
+        commitMove(newState, fromState || board);
     }, [board]);
 
-    const passTurn = useCallback(async (): Promise<{ nextState: BoardState, gameOver: boolean, result: GameResult | null }> => {
-         const lastWasPass = board.history.length > 0 && board.lastMove === null; 
+    // Two passes in a row don't end the game directly: they open the SCORING phase,
+    // where dead stones are agreed on before confirmScore produces the result.
+    const passTurn = useCallback(async (): Promise<{ nextState: BoardState, gameOver: boolean, result: GameResult | null, scoring: boolean }> => {
+         const lastWasPass = lastMoveWasPass(board);
          
-         const nextState: BoardState = {
-             ...board,
-             turn: board.turn === 'BLACK' ? 'WHITE' : 'BLACK',
-             lastMove: null,
-             history: [...board.history, { color: board.turn, coordinate: { x: -1, y: -1 }, capturedCount: 0 }]
-         };
-
-         pushHistory(board);
-         setBoard(nextState);
+         const nextState = playPass(board);
+
+         commitMove(nextState, board);
          
-         let result = null;
          if (lastWasPass) {
-             const score = await calculateAreaScore(nextState);
-             result = { winner: score.winner, reason: 'SCORING', score } as GameResult;
-             setGameResult(result);
-             setBoard(prev => ({ ...prev, gameOver: true }));
+             setDeadStones(new Set());
+             setGamePhase('SCORING');
          }
-         return { nextState, gameOver: !!result, result };
+         return { nextState, gameOver: false, result: null, scoring: lastWasPass };
     }, [board]);
 
+    const scoringPreview = useMemo(() => {
+        if (gamePhase !== 'SCORING') return null;
+        return {
+            territory: calculateTerritory(board, deadStones),
+            score: calculateScore(board, deadStones)
+        };
+    }, [board, deadStones, gamePhase]);
+
+    const confirmScore = useCallback(() => {
+        const score = calculateScore(board, deadStones);
+        const result = { winner: score.winner, reason: 'SCORING', score } as GameResult;
+        setGameResult(result);
+        setBoard(prev => ({ ...prev, gameOver: true }));
+        setGamePhase('PLAY');
+        return result;
+    }, [board, deadStones]);
+
+    // Leave the scoring phase without a result (e.g. players disagree and keep playing)
+    const resumePlay = useCallback(() => {
+        setDeadStones(new Set());
+        setGamePhase('PLAY');
+    }, []);
+
+    // Records the loser's resignation as the last move of the game
     const resign = useCallback(async (winner: StoneColor) => {
-        const score = await calculateAreaScore(board);
+        const score = calculateScore(board);
         const result = { winner, reason: 'RESIGNATION', score } as GameResult;
         setGameResult(result);
-        setBoard(prev => ({ ...prev, gameOver: true }));
+        setBoard(prev => playResign(prev, winner === 'BLACK' ? 'WHITE' : 'BLACK'));
         setConfirmationPending(null);
         return result;
     }, [board]);
 
+    // Leaving a position abandons any scoring or result that belonged to it
+    const navigate = useCallback((move: (t: GameTree) => GameTree) => {
+        setTree(move);
+        setGameResult(null);
+        if (gamePhase === 'SCORING') resumePlay();
+    }, [gamePhase, resumePlay]);
+
     const undo = useCallback(() => {
-        if (historyStack.length === 0) return;
-        const previous = historyStack[historyStack.length - 1];
-        setRedoStack(prev => [...prev, board]);
-        setBoard(previous);
-        setHistoryStack(prev => prev.slice(0, -1));
-        setGameResult(null); 
-    }, [historyStack, board]);
+        if (!canGoBack(tree)) return;
+        navigate(goToParent);
+    }, [tree, navigate]);
 
+    // Redo follows the branch visited last, so undo/redo never loses a variation
     const redo = useCallback(() => {
-        if (redoStack.length === 0) return;
-        const next = redoStack[redoStack.length - 1];
-        setHistoryStack(prev => [...prev, board]);
-        setBoard(next);
-        setRedoStack(prev => prev.slice(0, -1));
-    }, [redoStack, board]);
-
-    const reset = useCallback((newSize?: number) => {
+        if (!canGoForward(tree)) return;
+        navigate(goToActiveChild);
+    }, [tree, navigate]);
+
+    const goToMove = useCallback((nodeId: string) => navigate(t => goToNode(t, nodeId)), [navigate]);
+    const nextVariation = useCallback((delta: number) => navigate(t => goToSiblingVariation(t, delta)), [navigate]);
+    const backToMainLine = useCallback(() => navigate(goToMainLine), [navigate]);
+
+    const variations = useMemo(() => getVariations(tree), [tree]);
+    const continuations = useMemo(() => getContinuations(tree), [tree]);
+    const onMainLine = useMemo(() => isOnMainLine(tree), [tree]);
+
+    // Returns the fresh board so callers can act on it right away (e.g. White's first move in handicap games)
+    const reset = useCallback((newSize?: number, newHandicap?: number): BoardState => {
         const s = newSize ?? size;
-        setBoard(createBoard(s));
-        setHistoryStack([]);
-        setRedoStack([]);
+        const fresh = createBoard(s, rules, newHandicap ?? handicap);
+        setTree(createGameTree(fresh));
         setGameResult(null);
         setConfirmationPending(null);
-    }, [size]);
-
-    const loadGame = useCallback((newBoard: BoardState, newHistory: BoardState[]) => {
-        setBoard(newBoard);
-        setHistoryStack(newHistory);
-        setRedoStack([]);
+        setDeadStones(new Set());
+        setGamePhase(prev => prev === 'SCORING' ? 'PLAY' : prev);
+        return fresh;
+    }, [size, rules, handicap]);
+
+    // Replaces the whole game, e.g. with one loaded from a file
+    const loadGame = useCallback((newTree: GameTree) => {
+        setTree(newTree);
         setGameResult(null);
         setConfirmationPending(null);
+        setDeadStones(new Set());
+        setGamePhase(prev => prev === 'SCORING' ? 'PLAY' : prev);
     }, []);
 
-    const endGameWithScore = useCallback(async (finalBoard: BoardState) => {
-        const result = await calculateAreaScore(finalBoard);
-        const resObj = {
-            winner: result.winner,
-            reason: 'SCORING',
-            score: result
-        } as GameResult;
-        setGameResult(resObj);
-        setBoard(prev => ({ ...prev, gameOver: true }));
-        return resObj;
+    // Rules can change mid-game (e.g. komi); the position history is kept, so every ko rule still works
+    const setRules = useCallback((nextRules: RuleSet) => {
+        setBoard(prev => ({ ...prev, rules: nextRules }));
     }, []);
 
     const setTurn = useCallback((color: StoneColor) => {
-        setBoard(prev => ({ ...prev, turn: color }));
+        setBoard(prev => setPlayerToMove(prev, color));
     }, []);
 
     return {
         board, setBoard,
-        historyStack,
-        redoStack,
+        tree, canUndo: canGoBack(tree), canRedo: canGoForward(tree),
+        variations, continuations, onMainLine, goToMove, nextVariation, backToMainLine,
         gameResult, setGameResult,
         gamePhase, setGamePhase,
         setupTool, setSetupTool,
         confirmationPending, setConfirmationPending,
-        playMove, applyMove, passTurn, resign, undo, redo, reset, loadGame, endGameWithScore, setTurn
+        deadStones, setDeadStones, scoringPreview,
+        playMove, applyMove, passTurn, resign, undo, redo, reset, loadGame, setTurn, setRules, confirmScore, resumePlay
     };
 };
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * Times the typed-array board against the Map-based board it replaced:
+ *
+ *   node scripts/board-bench.js [--sizes 9,19] [--time 2000]
+ *
+ * For each size it prints random playouts per second and full legal-move scans of mid-game
+ * positions per second on both boards, and the speedup. The TypeScript services are loaded
+ * through Vite, so nothing needs building first.
+ */
+
+import { createServer } from 'vite';
+
+const text = (name, fallback) => {
+  const argv = process.argv.slice(2);
+  const i = argv.indexOf(name);
+  return i !== -1 && argv[i + 1] ? argv[i + 1] : fallback;
+};
+
+const sizes = text('--sizes', '9,19').split(',').map(Number);
+const timeMs = Number(text('--time', '2000'));
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false }
+});
+
+try {
+  const { runBoardBenchmark } = await server.ssrLoadModule('/services/boardBenchmark.ts');
+  const rate = (x) => x >= 100 ? Math.round(x).toLocaleString('en-US') : x.toFixed(1);
+  const row = (label, { map, fast }) =>
+    console.log(`  ${label.padEnd(20)} Map ${rate(map).padStart(9)}/s   typed arrays ${rate(fast).padStart(9)}/s   ${(fast / map).toFixed(1)}x`);
+
+  for (const size of sizes) {
+    const result = runBoardBenchmark({ size, timeMs });
+    console.log(`${size}x${size}`);
+    row('playouts', result.playoutsPerSecond);
+    row('legal-move scans', result.scansPerSecond);
+  }
+} finally {
+  await server.close();
+}
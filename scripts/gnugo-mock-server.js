@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+/**
+ * Stand-in for the hosted GNU Go service, for development and tests without the network:
+ *
+ *   node scripts/gnugo-mock-server.js [--port 8080] [--host 127.0.0.1] [--seed 42] [--delay 0] [--fail-rate 0]
+ *
+ * POST /action takes the same JSON as the real service ({ mode, size, color, moves, komi, level })
+ * and answers { result } for the modes the app uses:
+ *   move         a legal move, e.g. "D4", "PASS" (higher levels are less random)
+ *   hint         up to five candidates with scores, e.g. "D4 12.5 C3 8.1"
+ *   finishScore  area count with every stone alive, e.g. "B+3.5"
+ * It plays greedily (capture, escape atari, keep liberties), nowhere near GNU Go's strength.
+ * --delay (ms) and --fail-rate (0..1, answered with 503) exercise the client's timeouts and retries.
+ */
+
+import { createServer } from 'node:http';
+
+const COLS = 'ABCDEFGHJKLMNOPQRSTUVWXYZ';
+const MAX_SIZE = 19; // Like GNU Go, reject larger boards with a 400
+const HINT_COUNT = 5;
+
+const parseArgs = (argv) => {
+  const value = (name, fallback) => {
+    const i = argv.indexOf(name);
+    return i !== -1 && argv[i + 1] ? argv[i + 1] : fallback;
+  };
+  return {
+    port: parseInt(value('--port', '8080'), 10),
+    host: value('--host', '127.0.0.1'),
+    seed: parseInt(value('--seed', String(Date.now() % 2147483647)), 10),
+    delay: parseInt(value('--delay', '0'), 10),
+    failRate: parseFloat(value('--fail-rate', '0'))
+  };
+};
+
+// Seeded, so a fixed --seed replays the same games
+const createRandom = (seed) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const requestError = (status, message) => Object.assign(new Error(message), { status });
+
+// --- Board ---
+
+const createBoard = (size) => ({ size, points: new Array(size * size).fill(null), ko: -1 });
+
+const neighbors = (board, p) => {
+  const { size } = board;
+  const x = p % size, y = Math.floor(p / size);
+  const result = [];
+  if (x > 0) result.push(p - 1);
+  if (x < size - 1) result.push(p + 1);
+  if (y > 0) result.push(p - size);
+  if (y < size - 1) result.push(p + size);
+  return result;
+};
+
+const groupAt = (board, p) => {
+  const color = board.points[p];
+  const stones = [p];
+  const liberties = new Set();
+  const seen = new Set(stones);
+  for (let i = 0; i < stones.length; i++) {
+    for (const n of neighbors(board, stones[i])) {
+      if (board.points[n] === null) liberties.add(n);
+      else if (board.points[n] === color && !seen.has(n)) {
+        seen.add(n);
+        stones.push(n);
+      }
+    }
+  }
+  return { stones, liberties };
+};
+
+const other = (color) => color === 'B' ? 'W' : 'B';
+
+// Plays without checking ko, so any recorded game replays; returns the number of stones captured
+const play = (board, color, p) => {
+  board.points[p] = color;
+  let captured = [];
+  for (const n of neighbors(board, p)) {
+    if (board.points[n] !== other(color)) continue;
+    const group = groupAt(board, n);
+    if (group.liberties.size === 0) {
+      group.stones.forEach(s => { board.points[s] = null; });
+      captured = captured.concat(group.stones);
+    }
+  }
+  const own = groupAt(board, p);
+  if (own.liberties.size === 0) own.stones.forEach(s => { board.points[s] = null; });
+  board.ko = captured.length === 1 && own.stones.length === 1 && own.liberties.size === 1 ? captured[0] : -1;
+  return captured.length;
+};
+
+const parseVertex = (vertex, size) => {
+  const text = vertex.trim().toUpperCase();
+  if (text === 'PASS') return null;
+  const x = COLS.indexOf(text[0]);
+  const row = parseInt(text.slice(1), 10);
+  if (x < 0 || x >= size || !(row >= 1 && row <= size)) throw requestError(422, `Bad vertex: ${vertex}`);
+  return (size - row) * size + x;
+};
+
+const toVertex = (p, size) => `${COLS[p % size]}${size - Math.floor(p / size)}`;
+
+const setUp = ({ size, moves }) => {
+  if (!Number.isInteger(size) || size < 2) throw requestError(422, 'Missing board size');
+  if (size > MAX_SIZE) throw requestError(400, `Unsupported board size ${size}`);
+  const board = createBoard(size);
+  for (const move of moves || []) {
+    const [color, vertex = ''] = String(move).trim().split(/\s+/);
+    const p = parseVertex(vertex, size);
+    if (p !== null) play(board, color.toUpperCase().startsWith('W') ? 'W' : 'B', p);
+    else board.ko = -1;
+  }
+  return board;
+};
+
+// --- Move choice ---
+
+// An empty point whose neighbours are all `color`: filling it would only hurt
+const isOwnEye = (board, p, color) => neighbors(board, p).every(n => board.points[n] === color);
+
+// Heuristic value of `color` playing at p, or null if illegal
+const evaluate = (board, p, color) => {
+  if (board.points[p] !== null || p === board.ko || isOwnEye(board, p, color)) return null;
+  const trial = { ...board, points: board.points.slice() };
+  const captured = play(trial, color, p);
+  if (trial.points[p] === null) return null; // Suicide
+  const own = groupAt(trial, p);
+  if (own.liberties.size === 1 && captured === 0) return null; // Self-atari
+
+  let value = captured * 10;
+  for (const n of neighbors(board, p)) {
+    if (board.points[n] === color && groupAt(board, n).liberties.size === 1) value += 8 * own.liberties.size;
+    if (board.points[n] === other(color)) value += groupAt(trial, n).liberties.size === 1 ? 4 : 1;
+  }
+  // Stay off the first line early on; prefer the third and fourth
+  const { size } = board;
+  const x = p % size, y = Math.floor(p / size);
+  const line = Math.min(x, y, size - 1 - x, size - 1 - y);
+  return value + Math.min(line, 3) + own.liberties.size * 0.5;
+};
+
+const rankMoves = (board, color, noise, random) => {
+  const ranked = [];
+  for (let p = 0; p < board.points.length; p++) {
+    const value = evaluate(board, p, color);
+    if (value !== null) ranked.push({ p, value: value + random() * noise });
+  }
+  return ranked.sort((a, b) => b.value - a.value);
+};
+
+const genmove = (request, random) => {
+  const board = setUp(request);
+  const level = Math.max(1, Math.min(10, Number(request.level) || 10));
+  const [best] = rankMoves(board, request.color === 'W' ? 'W' : 'B', 2 + (10 - level) * 2, random);
+  return best ? toVertex(best.p, board.size) : 'PASS';
+};
+
+const hints = (request, random) => {
+  const board = setUp(request);
+  return rankMoves(board, request.color === 'W' ? 'W' : 'B', 1, random)
+    .slice(0, HINT_COUNT)
+    .map(({ p, value }) => `${toVertex(p, board.size)} ${value.toFixed(2)}`)
+    .join(' ');
+};
+
+// Stones plus empty regions bordered by one colour only
+const finishScore = (request) => {
+  const board = setUp(request);
+  let black = 0, white = 0;
+  const seen = new Set();
+  for (let p = 0; p < board.points.length; p++) {
+    if (board.points[p] === 'B') black++;
+    else if (board.points[p] === 'W') white++;
+    else if (!seen.has(p)) {
+      const region = [p];
+      const borders = new Set();
+      seen.add(p);
+      for (let i = 0; i < region.length; i++) {
+        for (const n of neighbors(board, region[i])) {
+          if (board.points[n] !== null) borders.add(board.points[n]);
+          else if (!seen.has(n)) {
+            seen.add(n);
+            region.push(n);
+          }
+        }
+      }
+      if (borders.size === 1) {
+        if (borders.has('B')) black += region.length;
+        else white += region.length;
+      }
+    }
+  }
+  const diff = black - white - (Number(request.komi) || 0);
+  return diff === 0 ? '0' : diff > 0 ? `B+${diff}` : `W+${-diff}`;
+};
+
+// --- Server ---
+
+const { port, host, seed, delay, failRate } = parseArgs(process.argv.slice(2));
+const random = createRandom(seed);
+
+const MODES = {
+  move: request => genmove(request, random),
+  hint: request => hints(request, random),
+  finishScore
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const server = createServer((request, response) => {
+  if (request.method === 'OPTIONS') return send(response, 204);
+  if (request.method !== 'POST' || request.url.split('?')[0] !== '/action') {
+    return send(response, 404, { error: 'POST /action' });
+  }
+
+  let raw = '';
+  request.setEncoding('utf8');
+  request.on('data', chunk => { raw += chunk; });
+  request.on('end', () => setTimeout(() => {
+    if (random() < failRate) return send(response, 503, { error: 'Simulated failure' });
+    try {
+      const body = JSON.parse(raw);
+      const handler = MODES[body.mode];
+      if (!handler) throw requestError(422, `Unknown mode: ${body.mode}`);
+      const result = handler(body);
+      console.log(`${body.mode} ${body.size}x${body.size} after ${(body.moves || []).length} moves -> ${result}`);
+      send(response, 200, { result });
+    } catch (e) {
+      send(response, e.status || 422, { error: e.message });
+    }
+  }, delay));
+});
+
+server.listen(port, host, () => console.log(`Mock GNU Go listening on http://${host}:${port}/action (seed ${seed})`));
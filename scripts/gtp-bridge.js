@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+/**
+ * Exposes a GTP engine binary over WebSocket so the app can play against it:
+ *
+ *   node scripts/gtp-bridge.js [--port 8765] [--host 127.0.0.1] [--allow-origin <origin>] -- gnugo --mode gtp --level 10
+ *   node scripts/gtp-bridge.js -- katago gtp -model model.bin.gz -config gtp.cfg
+ *   node scripts/gtp-bridge.js -- pachi
+ *
+ * Every connection gets its own engine process, killed when the connection closes. Text from the
+ * socket goes to the engine's stdin and its stdout comes back as text messages; the app speaks GTP.
+ * Only pages from the app's dev and preview servers may connect (any other site could drive the
+ * engine, and GTP commands like `printsgf` write files); --allow-origin (repeatable) adds another,
+ * e.g. where the app is deployed. No dependencies beyond Node.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { spawn } from 'node:child_process';
+import { StringDecoder } from 'node:string_decoder';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1 << 20;
+const DEFAULT_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+
+const parseArgs = (argv) => {
+  const split = argv.indexOf('--');
+  const options = split === -1 ? argv : argv.slice(0, split);
+  const engine = split === -1 ? [] : argv.slice(split + 1);
+  const value = (name, fallback) => {
+    const i = options.indexOf(name);
+    return i !== -1 && options[i + 1] ? options[i + 1] : fallback;
+  };
+  const allowed = options.flatMap((option, i) => option === '--allow-origin' && options[i + 1] ? [options[i + 1].replace(/\/+$/, '')] : []);
+  return {
+    port: parseInt(value('--port', '8765'), 10),
+    host: value('--host', '127.0.0.1'),
+    origins: new Set([...DEFAULT_ORIGINS, ...allowed]),
+    engine
+  };
+};
+
+// One unmasked server frame (FIN set) with the given opcode
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Reads complete frames off the front of `buffer`; returns them with the bytes left over
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin, opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const serve = (socket, engineCommand) => {
+  const [binary, ...args] = engineCommand;
+  const engine = spawn(binary, args, { stdio: ['pipe', 'pipe', 'inherit'] });
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  // Keeps a multi-byte character split across stdout chunks out of two separate text frames
+  const decoder = new StringDecoder('utf8');
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(encodeFrame(0x8, payload));
+    engine.kill();
+  };
+
+  engine.stdout.on('data', chunk => {
+    const text = decoder.write(chunk);
+    if (text && !closed) socket.write(encodeFrame(0x1, Buffer.from(text, 'utf8')));
+  });
+  engine.on('error', error => {
+    console.error(`Couldn't start ${binary}: ${error.message}`);
+    close(1011);
+  });
+  engine.on('exit', () => close(1000));
+  // Writing to an engine that has just exited (EPIPE) would otherwise crash the bridge
+  engine.stdin.on('error', () => close(1011));
+
+  socket.on('data', chunk => {
+    let decoded;
+    try {
+      decoded = decodeFrames(Buffer.concat([buffer, chunk]));
+    } catch {
+      close(1009);
+      return;
+    }
+    buffer = decoded.rest;
+    for (const frame of decoded.frames) {
+      if (frame.opcode === 0x8) {
+        close(1000);
+      } else if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(0xa, frame.payload));
+      } else if (frame.opcode === 0x0 || frame.opcode === 0x1 || frame.opcode === 0x2) {
+        fragments.push(frame.payload);
+        if (frame.fin) {
+          if (!closed) engine.stdin.write(Buffer.concat(fragments));
+          fragments = [];
+        }
+      }
+    }
+  });
+  socket.on('close', () => {
+    closed = true;
+    engine.kill();
+  });
+  socket.on('error', () => engine.kill());
+};
+
+const { port, host, origins, engine } = parseArgs(process.argv.slice(2));
+if (engine.length === 0) {
+  console.error('Usage: node scripts/gtp-bridge.js [--port 8765] [--host 127.0.0.1] [--allow-origin <origin>] -- <engine> [engine args]');
+  process.exit(1);
+}
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('GTP bridge: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if ((request.headers.upgrade || '').toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const origin = request.headers.origin;
+  if (!origin || !origins.has(origin)) {
+    console.warn(`Refused connection from origin ${origin || '(none)'}; allow it with --allow-origin`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  console.log(`Client connected from ${socket.remoteAddress}, starting ${engine.join(' ')}`);
+  serve(socket, engine);
+});
+
+server.listen(port, host, () => console.log(`GTP bridge for "${engine.join(' ')}" listening on ws://${host}:${port}`));
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Benchmarks the offline engine's playout policies against each other in self-play:
+ *
+ *   node scripts/selfplay.js [--games 20] [--playouts 1000] [--baseline random|uniform] [--baseline-playouts 1000] [--size 9] [--komi 7]
+ *
+ * "patterns" (atari replies, 3x3 shapes, true eyes) plays the baseline policy with colours
+ * alternating, and the win rate of "patterns" is printed with a 95% interval. The default baseline,
+ * "random", is the original playout (any legal move, own eyes included); "uniform" skips own eyes.
+ * The TypeScript services are loaded through Vite, so nothing needs building first.
+ */
+
+import { createServer } from 'vite';
+
+const text = (name, fallback) => {
+  const argv = process.argv.slice(2);
+  const i = argv.indexOf(name);
+  return i !== -1 && argv[i + 1] ? argv[i + 1] : fallback;
+};
+const value = (name, fallback) => Number(text(name, fallback));
+
+const games = value('--games', 20);
+const playouts = value('--playouts', 1000);
+const baseline = text('--baseline', 'random');
+const baselinePlayouts = value('--baseline-playouts', playouts);
+const size = value('--size', 9);
+const komi = value('--komi', 7);
+if (baseline !== 'random' && baseline !== 'uniform') {
+  console.error('--baseline must be "random" or "uniform"');
+  process.exit(1);
+}
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false }
+});
+
+try {
+  const { runSelfPlay } = await server.ssrLoadModule('/services/selfPlay.ts');
+  const percent = (x) => `${(x * 100).toFixed(1)}%`;
+
+  console.log(`${games} games on ${size}x${size}, komi ${komi}: patterns (${playouts} playouts) vs ${baseline} (${baselinePlayouts} playouts)`);
+  const report = await runSelfPlay({
+    players: [
+      { name: 'patterns', policy: 'patterns', playouts },
+      { name: baseline, policy: baseline, playouts: baselinePlayouts }
+    ],
+    games,
+    size,
+    komi,
+    onGame: (game) => console.log(
+      `#${game.index} B ${game.black} / W ${game.white}: ${game.winner ? `${game.winner} wins by ${game.margin}` : 'jigo'} after ${game.moves} moves ` +
+      `(${Math.round(game.msPerMove[0])} / ${Math.round(game.msPerMove[1])} ms per move)`
+    )
+  });
+  const [low, high] = report.interval;
+  console.log(`patterns wins ${percent(report.winRate)} (95% interval ${percent(low)}-${percent(high)})`);
+} finally {
+  await server.close();
+}
@@ -2,7 +2,7 @@
 import { GoogleGenAI } from "@google/genai";
 import { BoardState, ChatMessage, Marker, AnalysisMove, Coordinate } from "../types";
 import { boardToString } from "./gameLogic";
-import { toGtpCoordinate, fromGtpCoordinate } from "./gtpUtils";
+import { toGtpCoordinate, toGtpMove, fromGtpCoordinate } from "./gtpUtils";
 
 // Correct GoogleGenAI initialization using apiKey from process.env.API_KEY
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -99,9 +99,8 @@ export const getSenseiResponse = async (
       // 2. Add the Move that happened
       if (t < maxMoves) {
           const move = board.history[t];
-          const coord = toGtpCoordinate(move.coordinate, board.size);
           const color = move.color === 'BLACK' ? 'B' : 'W';
-          interleavedHistory += `    (${color}@${coord})\n`;
+          interleavedHistory += `    (${color}@${toGtpMove(move, board.size)})\n`;
       }
   }
 
@@ -128,6 +127,7 @@ export const getSenseiResponse = async (
     ${analysisPrompt}
 
     [CHAT AND PLAY HISTORY]
+    (Moves are written Color@Point; "@pass" and "@resign" mean that player passed or resigned.)
     ${interleavedHistory}
     
     [STUDENT'S NEW MESSAGE]
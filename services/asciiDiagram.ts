@@ -0,0 +1,211 @@
+
+import { BoardState, Marker, MarkerType, Stone, StoneColor } from '../types';
+import { getStarPoints, isValidBoardSize } from './gameLogic';
+import { toSgfCoordinate } from './gtpUtils';
+import { SgfGameTree, SgfNode } from './sgfParser';
+import { DiagramOptions, numberedPosition } from './diagramService';
+
+/**
+ * Sensei's Library style text diagrams, as pasted on Go forums:
+ *
+ *   $$Bc9m26 Title
+ *   $$ +-----------+
+ *   $$ | . . X O . |
+ *   $$ | . 1 2 , . |
+ *
+ * Header: player of move 1, 'c' for coordinates, the board size and 'm' with the number of move 1.
+ * X/O are stones; B/W, #/@, Y/Q and Z/P are black/white stones with a circle, square, triangle or
+ * cross; C, S, T and M are those marks on empty points; a-z are labels and 1-9, 0 the moves 1-10.
+ * Edges are drawn with '|', '-' and '+'; a missing edge means the diagram shows part of the board.
+ */
+
+export const ASCII_DIAGRAM_ERROR = 'AsciiDiagramError';
+
+export interface AsciiDiagramMove extends Stone {
+  number: number; // Move number in the game (the header's 'm' offset applied)
+}
+
+export interface AsciiDiagram {
+  size: number;
+  title: string;
+  coordinates: boolean;
+  firstPlayer: StoneColor; // Plays move 1, or is to move if there are no moves
+  stones: Stone[]; // Position before the numbered moves
+  moves: AsciiDiagramMove[]; // In order
+  markers: Marker[];
+}
+
+export interface AsciiDiagramOptions extends Pick<DiagramOptions, 'coordinates' | 'moveRange' | 'markers' | 'region'> {
+  title?: string;
+}
+
+const MAX_MOVES = 10; // Digits 1-9 and 0
+
+const MARKED_STONES: Record<string, { color: StoneColor; marker: MarkerType }> = {
+  B: { color: 'BLACK', marker: 'CIRCLE' },
+  W: { color: 'WHITE', marker: 'CIRCLE' },
+  '#': { color: 'BLACK', marker: 'SQUARE' },
+  '@': { color: 'WHITE', marker: 'SQUARE' },
+  Y: { color: 'BLACK', marker: 'TRIANGLE' },
+  Q: { color: 'WHITE', marker: 'TRIANGLE' },
+  Z: { color: 'BLACK', marker: 'X' },
+  P: { color: 'WHITE', marker: 'X' }
+};
+
+const EMPTY_MARKS: Record<string, MarkerType> = { C: 'CIRCLE', S: 'SQUARE', T: 'TRIANGLE', M: 'X' };
+
+const diagramError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = ASCII_DIAGRAM_ERROR;
+  return error;
+};
+
+const opposite = (color: StoneColor): StoneColor => color === 'BLACK' ? 'WHITE' : 'BLACK';
+
+const HEADER = /^([BW])?(c)?(\d+)?(?:m(\d+))?(?:\s+(.*))?$/;
+
+// A board row ("| . X O ,") rather than a header: edges, or single characters separated by spaces
+const looksLikeRow = (line: string) => line.includes('|') || /^\s*(\S\s+)+\S\s*$/.test(line) || /^\s*[-+]+\s*$/.test(line);
+
+/** Reads the first `$$` diagram in `text`; other lines (forum text around it) are ignored. */
+export const readAsciiDiagram = (text: string): AsciiDiagram => {
+  const lines = text.split(/\r?\n/).filter(line => /^\s*\$\$/.test(line)).map(line => line.replace(/^\s*\$\$/, ''));
+  if (lines.length === 0) throw diagramError('No diagram found (lines must start with $$)');
+
+  let title = '', coordinates = false, firstPlayer: StoneColor = 'BLACK', firstNumber = 1, headerSize = 0;
+  if (!looksLikeRow(lines[0])) {
+    const header = lines.shift()!.trim();
+    const match = header.match(HEADER);
+    if (match) {
+      firstPlayer = match[1] === 'W' ? 'WHITE' : 'BLACK';
+      coordinates = match[2] === 'c';
+      headerSize = match[3] ? parseInt(match[3], 10) : 0;
+      firstNumber = match[4] ? parseInt(match[4], 10) : 1;
+      title = match[5]?.trim() ?? '';
+    } else {
+      title = header;
+    }
+  }
+
+  const rows: string[] = [];
+  let top = false, bottom = false, left = false, right = false;
+  for (const line of lines) {
+    const compact = line.replace(/\s+/g, '');
+    if (!compact) continue;
+    if (/^[-+]+$/.test(compact)) {
+      if (rows.length === 0) top = true;
+      else bottom = true;
+      continue;
+    }
+    let row = compact;
+    if (row.startsWith('|')) { left = true; row = row.slice(1); }
+    if (row.endsWith('|')) { right = true; row = row.slice(0, -1); }
+    rows.push(row);
+  }
+  if (rows.length === 0) throw diagramError('The diagram has no board rows');
+  const width = rows[0].length;
+  if (rows.some(row => row.length !== width)) throw diagramError('The rows of the diagram have different lengths');
+  const height = rows.length;
+
+  // The size comes from the header, else from a pair of opposite edges, else a full 19x19 board is assumed
+  let size = headerSize;
+  if (!size) {
+    if (left && right && top && bottom && width !== height) throw diagramError('Only square boards are supported');
+    size = left && right ? width : top && bottom ? height : Math.max(19, width, height);
+  }
+  if (!isValidBoardSize(size)) throw diagramError(`Board size ${size} is not supported`);
+  if (width > size || height > size) throw diagramError(`The diagram doesn't fit on a ${size}x${size} board`);
+
+  // Without edges a fragment is placed in the middle of the board
+  const x0 = left ? 0 : right ? size - width : Math.floor((size - width) / 2);
+  const y0 = top ? 0 : bottom ? size - height : Math.floor((size - height) / 2);
+
+  const stones: Stone[] = [];
+  const moves: AsciiDiagramMove[] = [];
+  const markers: Marker[] = [];
+  rows.forEach((row, dy) => {
+    row.split('').forEach((ch, dx) => {
+      const x = x0 + dx, y = y0 + dy;
+      if (ch === 'X' || ch === 'O') {
+        stones.push({ x, y, color: ch === 'X' ? 'BLACK' : 'WHITE' });
+      } else if (MARKED_STONES[ch]) {
+        stones.push({ x, y, color: MARKED_STONES[ch].color });
+        markers.push({ x, y, type: MARKED_STONES[ch].marker });
+      } else if (EMPTY_MARKS[ch]) {
+        markers.push({ x, y, type: EMPTY_MARKS[ch] });
+      } else if (/[a-z]/.test(ch)) {
+        markers.push({ x, y, type: 'CIRCLE', label: ch });
+      } else if (/[0-9]/.test(ch)) {
+        const n = ch === '0' ? 10 : Number(ch);
+        moves.push({ x, y, color: n % 2 === 1 ? firstPlayer : opposite(firstPlayer), number: firstNumber + n - 1 });
+      }
+      // '.', ',' and anything else is an empty point
+    });
+  });
+  moves.sort((a, b) => a.number - b.number);
+
+  return { size, title, coordinates, firstPlayer, stones, moves, markers };
+};
+
+/** The diagram as an SGF game: stones as setup, numbered stones as moves. */
+export const asciiDiagramToSgf = (diagram: AsciiDiagram): SgfGameTree => {
+  const root: SgfNode = { GM: ['1'], FF: ['4'], CA: ['UTF-8'], SZ: [String(diagram.size)] };
+  if (diagram.title) root.GN = [diagram.title];
+  const black = diagram.stones.filter(s => s.color === 'BLACK');
+  const white = diagram.stones.filter(s => s.color === 'WHITE');
+  if (black.length > 0) root.AB = black.map(toSgfCoordinate);
+  if (white.length > 0) root.AW = white.map(toSgfCoordinate);
+  root.PL = [diagram.firstPlayer === 'BLACK' ? 'B' : 'W'];
+
+  const nodes = diagram.moves.map(move => ({ [move.color === 'BLACK' ? 'B' : 'W']: [toSgfCoordinate(move)] }));
+  return { nodes: [root, ...nodes], variations: [] };
+};
+
+const markedStoneChar = (color: StoneColor, type: MarkerType): string =>
+  Object.keys(MARKED_STONES).find(ch => MARKED_STONES[ch].color === color && MARKED_STONES[ch].marker === type)!;
+
+/**
+ * Writes the board as a `$$` diagram. Only ten moves can be numbered (1-9, 0), so a longer
+ * range is cut short; moves that can't be shown follow the diagram as notes ("10 at 4").
+ */
+export const writeAsciiDiagram = (board: BoardState, options: AsciiDiagramOptions = {}): string => {
+  const { size } = board;
+  const region = options.region ?? { x1: 0, y1: 0, x2: size - 1, y2: size - 1 };
+  const range = options.moveRange && { from: options.moveRange.from, to: Math.min(options.moveRange.to, options.moveRange.from + MAX_MOVES - 1) };
+  const { stones, numbers, notes } = numberedPosition(board, range);
+
+  const firstMove = range ? board.history[range.from - 1] : undefined;
+  const firstPlayer = firstMove ? firstMove.color : board.turn;
+  let header = `$$${firstPlayer === 'BLACK' ? 'B' : 'W'}${options.coordinates ? 'c' : ''}${size !== 19 ? size : ''}`;
+  if (range && range.from > 1) header += `m${range.from}`;
+  if (options.title) header += ` ${options.title}`;
+
+  const markers = new Map((options.markers || []).map(m => [`${m.x},${m.y}`, m]));
+  const stars = new Set(getStarPoints(size).map(p => `${p.x},${p.y}`));
+  const pointChar = (key: string): string => {
+    const number = numbers.get(key);
+    if (number !== undefined && range) return String((number - range.from + 1) % 10);
+    const color = stones.get(key);
+    const marker = markers.get(key);
+    if (color) return marker && !marker.label ? markedStoneChar(color, marker.type) : color === 'BLACK' ? 'X' : 'O';
+    if (marker?.label && /^[a-z]$/.test(marker.label)) return marker.label;
+    if (marker && !marker.label) return Object.keys(EMPTY_MARKS).find(ch => EMPTY_MARKS[ch] === marker.type)!;
+    return stars.has(key) ? ',' : '.';
+  };
+
+  const left = region.x1 === 0, right = region.x2 === size - 1;
+  const rows: string[] = [];
+  for (let y = region.y1; y <= region.y2; y++) {
+    const points: string[] = [];
+    for (let x = region.x1; x <= region.x2; x++) points.push(pointChar(`${x},${y}`));
+    rows.push(`${left ? '| ' : ''}${points.join(' ')}${right ? ' |' : ''}`);
+  }
+  const length = rows[0].length;
+  const edge = `${left ? '+' : ''}${'-'.repeat(length - (left ? 1 : 0) - (right ? 1 : 0))}${right ? '+' : ''}`;
+
+  const lines = [header];
+  if (region.y1 === 0) lines.push(`$$ ${edge}`);
+  rows.forEach(row => lines.push(`$$ ${row}`));
+  if (region.y2 === size - 1) lines.push(`$$ ${edge}`);
+  return [...lines, ...notes].join('\n');
+};
@@ -0,0 +1,183 @@
+
+import { Coordinate, StoneColor } from '../types';
+import { getGroup, getNeighbors } from './gameLogic';
+import {
+  FastBoard, EMPTY, createFastBoard, playFast, passFast, isLegalFast, isOwnEyeFast, toStonesMap, toStoneColor
+} from './fastBoard';
+
+/**
+ * Benchmark of the typed-array board (fastBoard) against the Map-based board it replaced: the same
+ * random playouts, and legal-move scans of the same mid-game positions, on each. Run it with
+ * `npm run board-bench` (scripts/board-bench.js).
+ */
+
+export interface BoardBenchmarkOptions {
+  size: number;
+  timeMs?: number; // Per measurement
+}
+
+export interface BoardBenchmarkResult {
+  size: number;
+  playoutsPerSecond: { map: number; fast: number };
+  scansPerSecond: { map: number; fast: number }; // Legal moves of a whole position
+}
+
+// --- Map-based board, as gameLogic played moves before fastBoard ---
+
+interface MapBoard {
+  size: number;
+  stones: Map<string, StoneColor>;
+  turn: StoneColor;
+  koPoint: string | null;
+}
+
+const keyOf = (c: Coordinate) => `${c.x},${c.y}`;
+const otherColor = (color: StoneColor): StoneColor => color === 'BLACK' ? 'WHITE' : 'BLACK';
+
+// Captures by flood fill; the board is only changed when the move is legal
+const mapPlay = (board: MapBoard, move: Coordinate): boolean => {
+  const key = keyOf(move);
+  if (board.stones.has(key) || board.koPoint === key) return false;
+
+  const color = board.turn;
+  const opponent = otherColor(color);
+  const stones = new Map(board.stones);
+  stones.set(key, color);
+
+  const captured: string[] = [];
+  for (const n of getNeighbors(move, board.size)) {
+    if (stones.get(keyOf(n)) !== opponent) continue;
+    const { group, liberties } = getGroup(stones, n, opponent, board.size);
+    if (liberties === 0) group.forEach(k => { stones.delete(k); captured.push(k); });
+  }
+  const own = getGroup(stones, move, color, board.size);
+  if (own.liberties === 0) return false;
+
+  board.stones = stones;
+  board.koPoint = captured.length === 1 && own.group.length === 1 && own.liberties === 1 ? captured[0] : null;
+  board.turn = opponent;
+  return true;
+};
+
+const isMapEye = (board: MapBoard, move: Coordinate): boolean =>
+  getNeighbors(move, board.size).every(n => board.stones.get(keyOf(n)) === board.turn);
+
+// --- Playouts: random moves that don't fill own eyes, until both sides pass ---
+
+const runMapPlayout = (size: number) => {
+  const board: MapBoard = { size, stones: new Map(), turn: 'BLACK', koPoint: null };
+  let passes = 0;
+  for (let moves = 0; passes < 2 && moves < size * size * 1.5; moves++) {
+    const empty: Coordinate[] = [];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) if (!board.stones.has(`${x},${y}`)) empty.push({ x, y });
+    }
+    let moved = false;
+    while (empty.length > 0) {
+      const i = Math.floor(Math.random() * empty.length);
+      const [move] = empty.splice(i, 1);
+      if (!isMapEye(board, move) && mapPlay(board, move)) {
+        moved = true;
+        break;
+      }
+    }
+    if (moved) {
+      passes = 0;
+    } else {
+      passes++;
+      board.koPoint = null;
+      board.turn = otherColor(board.turn);
+    }
+  }
+};
+
+const runFastPlayout = (fb: FastBoard, maxMoves: number = fb.size * fb.size * 1.5) => {
+  const points = fb.cells.length;
+  const empty = new Int16Array(points);
+  let passes = 0;
+  for (let moves = 0; passes < 2 && moves < maxMoves; moves++) {
+    let emptyCount = 0;
+    for (let p = 0; p < points; p++) if (fb.cells[p] === EMPTY) empty[emptyCount++] = p;
+    let moved = false;
+    while (emptyCount > 0) {
+      const i = Math.floor(Math.random() * emptyCount);
+      const point = empty[i];
+      empty[i] = empty[--emptyCount];
+      if (!isOwnEyeFast(fb, point, fb.turn) && playFast(fb, point) >= 0) {
+        moved = true;
+        break;
+      }
+    }
+    if (moved) {
+      passes = 0;
+    } else {
+      passes++;
+      passFast(fb);
+    }
+  }
+};
+
+// --- Legal moves of a position ---
+
+const mapLegalMoves = (board: MapBoard): number => {
+  let count = 0;
+  for (let y = 0; y < board.size; y++) {
+    for (let x = 0; x < board.size; x++) {
+      if (mapPlay({ ...board }, { x, y })) count++;
+    }
+  }
+  return count;
+};
+
+const fastLegalMoves = (fb: FastBoard): number => {
+  let count = 0;
+  for (let p = 0; p < fb.cells.length; p++) if (isLegalFast(fb, p)) count++;
+  return count;
+};
+
+// Runs `work` repeatedly for about `timeMs` and returns the rate per second
+const measure = (timeMs: number, work: () => void): number => {
+  work(); // Warm up
+  const start = performance.now();
+  let runs = 0;
+  let elapsed = 0;
+  while (elapsed < timeMs) {
+    work();
+    runs++;
+    elapsed = performance.now() - start;
+  }
+  return runs / (elapsed / 1000);
+};
+
+const POSITIONS = 20;
+
+export const runBoardBenchmark = ({ size, timeMs = 2000 }: BoardBenchmarkOptions): BoardBenchmarkResult => {
+  // Mid-game positions (half the board played), the same ones on both boards
+  const positions = Array.from({ length: POSITIONS }, () => {
+    const fb = createFastBoard(size);
+    runFastPlayout(fb, Math.floor(size * size / 2));
+    return fb;
+  });
+  const mapPositions: MapBoard[] = positions.map(fb => ({
+    size,
+    stones: toStonesMap(fb),
+    turn: toStoneColor(fb.turn),
+    koPoint: fb.koPoint < 0 ? null : `${fb.koPoint % size},${Math.floor(fb.koPoint / size)}`
+  }));
+  positions.forEach((fb, i) => {
+    if (fastLegalMoves(fb) !== mapLegalMoves(mapPositions[i])) throw new Error('The boards disagree on the legal moves');
+  });
+
+  let next = 0;
+  return {
+    size,
+    playoutsPerSecond: {
+      map: measure(timeMs, () => runMapPlayout(size)),
+      fast: measure(timeMs, () => runFastPlayout(createFastBoard(size)))
+    },
+    scansPerSecond: {
+      map: measure(timeMs, () => mapLegalMoves(mapPositions[next++ % POSITIONS])),
+      fast: measure(timeMs, () => fastLegalMoves(positions[next++ % POSITIONS]))
+    }
+  };
+};
@@ -0,0 +1,250 @@
+
+import { BoardState, Coordinate, Marker, StoneColor } from '../types';
+import { createBoardFromPosition, setPlayerToMove, placeStone, playPass, getStarPoints, getReplayStart } from './gameLogic';
+import { getColLabel, getRowLabel, toGtpCoordinate } from './gtpUtils';
+
+/**
+ * Standalone board diagrams (SVG, or PNG rendered from the SVG) for handouts and printing.
+ * Moves can be numbered over the position they started from, book style: a stone keeps the
+ * number of the first move played on its point and later moves there become notes ("10 at 4").
+ */
+
+// Inclusive range of board points to show
+export interface DiagramRegion {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface DiagramOptions {
+  coordinates?: boolean; // Column letters and row numbers around the board (default on)
+  moveRange?: { from: number; to: number }; // Number moves from..to (1-based) on the position before `from`
+  markers?: Marker[];
+  region?: DiagramRegion; // Crop to part of the board
+  printer?: boolean; // Plain black and white for printing
+  pointSize?: number; // Pixels between lines (default 32)
+}
+
+interface Palette {
+  background: string;
+  line: string;
+  blackStone: string;
+  whiteStone: string;
+  stoneEdge: string;
+  text: string; // Coordinates and notes
+  markOnEmpty: string;
+}
+
+const WOOD: Palette = { background: '#e3c078', line: '#5b4a2e', blackStone: '#1e293b', whiteStone: '#f8fafc', stoneEdge: '#334155', text: '#3f3221', markOnEmpty: '#b91c1c' };
+const PRINT: Palette = { background: '#ffffff', line: '#000000', blackStone: '#000000', whiteStone: '#ffffff', stoneEdge: '#000000', text: '#000000', markOnEmpty: '#000000' };
+
+const escapeXml = (text: string): string =>
+  text.replace(/[&<>"]/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[ch]!));
+
+const key = (c: Coordinate) => `${c.x},${c.y}`;
+
+// The position after the first `count` moves of the record (and any setup edit made right after them)
+const positionAfter = (board: BoardState, count: number): BoardState => {
+  const start = getReplayStart(board, count);
+  let state = createBoardFromPosition(board.size, board.rules, start.position, board.handicapStones);
+  for (const move of board.history.slice(start.moveNumber, count)) {
+    if (move.type === 'RESIGN') break;
+    const current = move.color === state.turn ? state : setPlayerToMove(state, move.color);
+    const next = move.type === 'PASS' ? playPass(current) : placeStone(current, move.coordinate);
+    if (!next) break;
+    state = next;
+  }
+  return state;
+};
+
+// Stones to draw, the move number shown on each numbered point and the notes for moves that can't be shown
+export interface NumberedPosition {
+  stones: Map<string, StoneColor>;
+  numbers: Map<string, number>;
+  notes: string[];
+}
+
+export const numberedPosition = (board: BoardState, range: DiagramOptions['moveRange']): NumberedPosition => {
+  if (!range) return { stones: board.stones, numbers: new Map(), notes: [] };
+
+  const from = Math.max(1, range.from);
+  const to = Math.min(board.history.length, range.to);
+  const stones = new Map(positionAfter(board, from - 1).stones);
+  const numbers = new Map<string, number>();
+  const notes: string[] = [];
+  for (let n = from; n <= to; n++) {
+    // A setup edit within the range changes the stones that aren't numbered
+    const edit = n > from ? board.setupEdits.find(e => e.moveNumber === n - 1) : undefined;
+    if (edit) {
+      stones.forEach((_, k) => { if (!numbers.has(k) && !edit.position.stones.has(k)) stones.delete(k); });
+      edit.position.stones.forEach((color, k) => { if (!numbers.has(k)) stones.set(k, color); });
+    }
+    const move = board.history[n - 1];
+    if (move.type === 'PASS') {
+      notes.push(`${n} pass`);
+      continue;
+    }
+    if (move.type !== 'PLAY') continue;
+    const k = key(move.coordinate);
+    const shown = numbers.get(k);
+    if (shown !== undefined) {
+      notes.push(`${n} at ${shown}`);
+    } else if (stones.has(k)) {
+      // Replaces a stone from the starting position (captured during the range)
+      notes.push(`${n} at ${toGtpCoordinate(move.coordinate, board.size)}`);
+    } else {
+      stones.set(k, move.color);
+      numbers.set(k, n);
+    }
+  }
+  return { stones, numbers, notes };
+};
+
+const markerShape = (marker: Marker, cx: number, cy: number, s: number, color: string): string => {
+  const r = s * 0.26;
+  const stroke = `stroke="${color}" stroke-width="${(s * 0.07).toFixed(2)}" fill="none"`;
+  switch (marker.type) {
+    case 'TRIANGLE':
+      return `<path d="M${cx} ${cy - r}L${cx + r * 0.95} ${cy + r * 0.7}H${cx - r * 0.95}Z" ${stroke}/>`;
+    case 'CIRCLE':
+      return `<circle cx="${cx}" cy="${cy}" r="${r}" ${stroke}/>`;
+    case 'SQUARE':
+      return `<rect x="${cx - r * 0.8}" y="${cy - r * 0.8}" width="${r * 1.6}" height="${r * 1.6}" ${stroke}/>`;
+    case 'X':
+      return `<path d="M${cx - r * 0.8} ${cy - r * 0.8}L${cx + r * 0.8} ${cy + r * 0.8}M${cx + r * 0.8} ${cy - r * 0.8}L${cx - r * 0.8} ${cy + r * 0.8}" ${stroke}/>`;
+    default:
+      return '';
+  }
+};
+
+const text = (content: string, x: number, y: number, size: number, color: string, anchor: string = 'middle'): string =>
+  `<text x="${x}" y="${y}" font-size="${size.toFixed(1)}" fill="${color}" text-anchor="${anchor}" dominant-baseline="central">${escapeXml(content)}</text>`;
+
+export const renderDiagramSvg = (board: BoardState, options: DiagramOptions = {}): string => {
+  const { size } = board;
+  const s = options.pointSize ?? 32;
+  const palette = options.printer ? PRINT : WOOD;
+  const showCoordinates = options.coordinates ?? true;
+  const region = options.region ?? { x1: 0, y1: 0, x2: size - 1, y2: size - 1 };
+  const { stones, numbers, notes } = numberedPosition(board, options.moveRange);
+
+  const cols = region.x2 - region.x1 + 1;
+  const rows = region.y2 - region.y1 + 1;
+  const pad = showCoordinates ? s * 0.8 : s * 0.25;
+  const boardWidth = cols * s + pad * 2;
+  const noteSize = s * 0.45;
+  const notesHeight = notes.length > 0 ? notes.length * noteSize * 1.4 + s * 0.3 : 0;
+  const width = boardWidth;
+  const height = rows * s + pad * 2 + notesHeight;
+  const cx = (x: number) => pad + (x - region.x1 + 0.5) * s;
+  const cy = (y: number) => pad + (y - region.y1 + 0.5) * s;
+
+  const parts: string[] = [];
+  parts.push(`<rect width="${width}" height="${height}" fill="${palette.background}"/>`);
+
+  // Lines run to the edge of the picture where the board continues beyond the crop
+  const left = region.x1 > 0 ? pad : cx(0);
+  const right = region.x2 < size - 1 ? pad + cols * s : cx(size - 1);
+  const top = region.y1 > 0 ? pad : cy(0);
+  const bottom = region.y2 < size - 1 ? pad + rows * s : cy(size - 1);
+  const thin = (s * 0.03).toFixed(2);
+  const thick = (s * 0.07).toFixed(2);
+  for (let y = region.y1; y <= region.y2; y++) {
+    const edge = y === 0 || y === size - 1;
+    parts.push(`<line x1="${left}" y1="${cy(y)}" x2="${right}" y2="${cy(y)}" stroke="${palette.line}" stroke-width="${edge ? thick : thin}"/>`);
+  }
+  for (let x = region.x1; x <= region.x2; x++) {
+    const edge = x === 0 || x === size - 1;
+    parts.push(`<line x1="${cx(x)}" y1="${top}" x2="${cx(x)}" y2="${bottom}" stroke="${palette.line}" stroke-width="${edge ? thick : thin}"/>`);
+  }
+
+  const inRegion = (c: Coordinate) => c.x >= region.x1 && c.x <= region.x2 && c.y >= region.y1 && c.y <= region.y2;
+  getStarPoints(size).filter(inRegion).forEach(p => {
+    if (!stones.has(key(p))) parts.push(`<circle cx="${cx(p.x)}" cy="${cy(p.y)}" r="${s * 0.09}" fill="${palette.line}"/>`);
+  });
+
+  if (showCoordinates) {
+    for (let x = region.x1; x <= region.x2; x++) {
+      parts.push(text(getColLabel(x), cx(x), pad * 0.45, s * 0.38, palette.text));
+      parts.push(text(getColLabel(x), cx(x), pad * 1.55 + rows * s, s * 0.38, palette.text));
+    }
+    for (let y = region.y1; y <= region.y2; y++) {
+      parts.push(text(getRowLabel(y, size), pad * 0.45, cy(y), s * 0.38, palette.text));
+      parts.push(text(getRowLabel(y, size), pad * 1.55 + cols * s, cy(y), s * 0.38, palette.text));
+    }
+  }
+
+  const markers = new Map((options.markers || []).filter(inRegion).map(m => [key(m), m]));
+  stones.forEach((color, k) => {
+    const [x, y] = k.split(',').map(Number);
+    if (!inRegion({ x, y })) return;
+    const fill = color === 'BLACK' ? palette.blackStone : palette.whiteStone;
+    parts.push(`<circle cx="${cx(x)}" cy="${cy(y)}" r="${s * 0.47}" fill="${fill}" stroke="${palette.stoneEdge}" stroke-width="${thin}"/>`);
+  });
+
+  // Numbers and marker labels, then marker shapes, in the colour that shows on each point
+  const contrast = (k: string) => {
+    const color = stones.get(k);
+    return color === 'BLACK' ? palette.whiteStone : color === 'WHITE' ? palette.blackStone : palette.markOnEmpty;
+  };
+  const labelled = new Set<string>();
+  numbers.forEach((n, k) => {
+    const [x, y] = k.split(',').map(Number);
+    if (!inRegion({ x, y })) return;
+    parts.push(text(String(n), cx(x), cy(y), n >= 100 ? s * 0.4 : s * 0.5, contrast(k)));
+    labelled.add(k);
+  });
+  markers.forEach((marker, k) => {
+    if (marker.label && !labelled.has(k)) {
+      // Clear the grid under a label on an empty point so it stays readable
+      if (!stones.has(k)) parts.push(`<circle cx="${cx(marker.x)}" cy="${cy(marker.y)}" r="${s * 0.3}" fill="${palette.background}"/>`);
+      parts.push(text(marker.label, cx(marker.x), cy(marker.y), s * 0.45, contrast(k)));
+    } else if (!marker.label && !labelled.has(k)) {
+      parts.push(markerShape(marker, cx(marker.x), cy(marker.y), s, contrast(k)));
+    }
+  });
+
+  notes.forEach((note, i) => {
+    parts.push(text(note, pad, rows * s + pad * 2 + s * 0.3 + (i + 0.5) * noteSize * 1.4, noteSize, palette.text, 'start'));
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">${parts.join('')}</svg>`;
+};
+
+// Renders the SVG diagram onto a canvas; `scale` 2 gives crisp prints
+export const renderDiagramPng = (board: BoardState, options: DiagramOptions = {}, scale: number = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const svg = renderDiagramSvg(board, options);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => reject(new Error('The diagram could not be rendered'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+/**
+ * Smallest region holding `points` with `margin` lines around them. A side that gets
+ * within two lines of the board edge is extended to it, as in printed diagrams.
+ */
+export const fitRegion = (points: Coordinate[], size: number, margin: number = 1): DiagramRegion => {
+  if (points.length === 0) return { x1: 0, y1: 0, x2: size - 1, y2: size - 1 };
+  const low = (v: number) => (v - margin <= 2 ? 0 : v - margin);
+  const high = (v: number) => (v + margin >= size - 3 ? size - 1 : v + margin);
+  return {
+    x1: low(Math.min(...points.map(p => p.x))),
+    y1: low(Math.min(...points.map(p => p.y))),
+    x2: high(Math.max(...points.map(p => p.x))),
+    y2: high(Math.max(...points.map(p => p.y)))
+  };
+};
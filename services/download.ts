@@ -0,0 +1,11 @@
+
+// Offers text or binary data as a file download
+export const downloadFile = (data: Blob | string, filename: string, type: string = 'text/plain') => {
+  const blob = typeof data === 'string' ? new Blob([data], { type }) : data;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
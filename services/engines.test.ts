@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { GoEngine } from '../types';
+import { createBoard, placeStone } from './gameLogic';
+import {
+  registerEngine, unregisterEngine, getEngine, getScoringEngine, opponentPlayer, createGnuGoEngine, createGtpEngine,
+  HUMAN_OPPONENT
+} from './engines';
+import { GtpClient } from './gtpClient';
+import { RULE_SETS } from './ruleSets';
+
+const fakeEngine = (onClose: () => void): GoEngine => ({
+  id: 'test_engine',
+  displayName: 'Test',
+  group: 'Test',
+  player: { name: 'Test' },
+  capabilities: { hints: false, score: false, analysis: false, maxBoardSize: 19, paid: false },
+  genmove: async () => ({ move: { type: 'PASS' } }),
+  close: onClose
+});
+
+// Records every command and answers genmove with the next of `moves`
+const fakeGtpClient = (moves: string[]) => {
+  const sent: string[] = [];
+  const command = async (line: string) => { sent.push(line); return ''; };
+  const client: GtpClient = {
+    command,
+    isClosed: () => false,
+    close: () => {},
+    name: async () => 'Fake',
+    version: async () => '1.0',
+    listCommands: async () => [],
+    boardsize: async size => { await command(`boardsize ${size}`); },
+    clearBoard: async () => { await command('clear_board'); },
+    komi: async komi => { await command(`komi ${komi}`); },
+    play: async () => {},
+    genmove: async color => { sent.push(`genmove ${color}`); return moves.shift() ?? 'pass'; },
+    finalScore: async () => '0',
+    finalStatusList: async () => []
+  };
+  return { client, sent };
+};
+
+describe('engine registry', () => {
+  it('replaces and closes an engine registered under the same id', () => {
+    const closed: string[] = [];
+    registerEngine(fakeEngine(() => closed.push('first')));
+    const second = fakeEngine(() => closed.push('second'));
+    registerEngine(second);
+    expect(closed).toEqual(['first']);
+    expect(getEngine('test_engine')).toBe(second);
+
+    unregisterEngine('test_engine');
+    expect(closed).toEqual(['first', 'second']);
+    expect(getEngine('test_engine')).toBeUndefined();
+  });
+
+  it('reads numeric ids from older saves as Monte Carlo levels', () => {
+    expect(getEngine(3)?.id).toBe('montecarlo_3');
+    expect(getEngine('gnugo_5')?.id).toBe('gnugo_5');
+  });
+
+  it('leaves dead stones to the local engine when the opponent cannot judge them', () => {
+    expect(getScoringEngine('montecarlo_4').id).toBe('montecarlo_4');
+    expect(getScoringEngine('gnugo_5').id).toBe('montecarlo_1');
+    expect(getScoringEngine('no_such_engine').id).toBe('montecarlo_1');
+  });
+
+  it('names the White player for the game record', () => {
+    expect(opponentPlayer(HUMAN_OPPONENT)).toBeNull();
+    expect(opponentPlayer(2)).toEqual({ name: 'Monte Carlo', level: 'Level 2' });
+    expect(opponentPlayer('unknown-model')).toEqual({ name: 'unknown-model' });
+  });
+});
+
+describe('createGnuGoEngine', () => {
+  it('lets the local engine play on board sizes GNU Go does not support', async () => {
+    const result = await createGnuGoEngine(1).genmove(createBoard(21, RULE_SETS.JAPANESE));
+    expect(result?.move.type).toBe('PLAY');
+    expect(result?.fallbackNotice).toBe("GNU Go can't play on 21x21, so the local engine will play Black instead.");
+  });
+});
+
+describe('createGtpEngine', () => {
+  it('sends only the moves the engine has not seen, and starts over when the position changes', async () => {
+    const { client, sent } = fakeGtpClient(['D5', 'E5']);
+    const engine = createGtpEngine('ws://localhost', 'Fake', client);
+    let board = createBoard(9, RULE_SETS.JAPANESE);
+
+    expect(await engine.genmove(board)).toEqual({ move: { type: 'PLAY', coordinate: { x: 3, y: 4 } } });
+    expect(sent).toEqual(['boardsize 9', 'clear_board', 'komi 6.5', 'genmove BLACK']);
+
+    // The engine's own move is already on its board: only White's reply is sent
+    board = placeStone(board, { x: 3, y: 4 })!;
+    board = placeStone(board, { x: 2, y: 2 })!;
+    sent.length = 0;
+    await engine.genmove(board);
+    expect(sent).toEqual(['play W C7', 'genmove BLACK']);
+
+    // A different position (e.g. after an undo) is set up from scratch
+    sent.length = 0;
+    await engine.genmove(createBoard(9, RULE_SETS.JAPANESE));
+    expect(sent).toEqual(['boardsize 9', 'clear_board', 'komi 6.5', 'genmove BLACK']);
+  });
+});
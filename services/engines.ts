@@ -0,0 +1,213 @@
+
+import { BoardState, GoEngine } from '../types';
+import { MAX_BOARD_SIZE } from './gameLogic';
+import { fetchGnuGoMove, fetchGnuGoHints, GNUGO_MAX_BOARD_SIZE, UNSUPPORTED_BOARD_SIZE } from './gnugoService';
+import { generateMove, getLevelBudget, proposeDeadStones, analyzePosition } from './simpleAi';
+import { getGeminiMove } from './geminiEngine';
+import { GtpClient, connectGtpWebSocket, gtpPositionCommands } from './gtpClient';
+import { fromGtpMove, fromGtpCoordinate } from './gtpUtils';
+
+/**
+ * The engines the app can play against, behind the GoEngine interface, and the registry the
+ * opponent menu is built from. New engines only need `registerEngine`.
+ */
+
+export const HUMAN_OPPONENT = 'human';
+
+// Suggests moves for the Hints overlay whoever the opponent is
+export const HINT_ENGINE_ID = 'gnugo_10';
+
+// Estimates ownership and who is ahead for the heatmap and score bar, offline
+export const ANALYSIS_ENGINE_ID = 'montecarlo_1';
+
+const DEAD_STONE_PLAYOUTS = 24;
+const ESTIMATE_BUDGET = { timeMs: 1000, maxPlayouts: 4000 };
+const LOCAL_SCORING_ENGINE_ID = 'montecarlo_1'; // Dead stones don't depend on the level
+const GEMINI_FALLBACK_LEVEL = 3;
+
+export const createMonteCarloEngine = (level: number): GoEngine => ({
+  id: `montecarlo_${level}`,
+  displayName: `Monte Carlo Lvl ${level}`,
+  group: 'Monte Carlo (offline)',
+  player: { name: 'Monte Carlo', level: `Level ${level}` },
+  capabilities: { hints: false, score: true, analysis: true, maxBoardSize: MAX_BOARD_SIZE, paid: false },
+  genmove: async (board, signal, onProgress) => {
+    const coordinate = await generateMove(board, getLevelBudget(level), signal, onProgress && (progress => onProgress({
+      fraction: progress.fraction,
+      detail: `${progress.playouts.toLocaleString()} playouts, ${Math.round(progress.winRate * 100)}% to win`
+    })));
+    return { move: coordinate ? { type: 'PLAY', coordinate } : { type: 'PASS' } };
+  },
+  score: (board, signal) => proposeDeadStones(board, DEAD_STONE_PLAYOUTS, signal),
+  analyze: (board, signal) => analyzePosition(board, ESTIMATE_BUDGET, signal)
+});
+
+export const createGnuGoEngine = (level: number): GoEngine => ({
+  id: `gnugo_${level}`,
+  displayName: `GNU Go Lvl ${level}`,
+  group: 'GNU Go',
+  player: { name: 'GNU Go', level: `Level ${level}` },
+  capabilities: { hints: true, score: false, analysis: false, maxBoardSize: GNUGO_MAX_BOARD_SIZE, paid: false },
+  genmove: async (board, signal, onProgress) => {
+    try {
+      const move = await fetchGnuGoMove(board, level, signal);
+      if (move.type === 'RESIGN') return { move, explanation: 'GNU Go resigns.' };
+      if (move.type === 'PASS') return { move, explanation: 'GNU Go passes.' };
+      return { move, explanation: `GNU Go (Level ${level}) plays.` };
+    } catch (e) {
+      if (!(e instanceof Error) || e.name !== UNSUPPORTED_BOARD_SIZE) throw e;
+      // GNU Go can't play this size: the local engine takes over at a comparable strength
+      const fallback = await createMonteCarloEngine(Math.ceil(level / 2)).genmove(board, signal, onProgress);
+      return fallback && {
+        ...fallback,
+        fallbackNotice: `GNU Go can't play on ${board.size}x${board.size}, so the local engine will play ${board.turn === 'BLACK' ? 'Black' : 'White'} instead.`
+      };
+    }
+  },
+  hints: fetchGnuGoHints
+});
+
+export const createGeminiEngine = (model: string, displayName: string): GoEngine => ({
+  id: model,
+  displayName,
+  group: 'Gemini',
+  player: { name: `Gemini (${model})` },
+  capabilities: { hints: false, score: false, analysis: false, maxBoardSize: MAX_BOARD_SIZE, paid: true },
+  hidden: true,
+  genmove: async (board, signal, onProgress) => {
+    const result = await getGeminiMove(board, model, signal);
+    if (result.move) return { move: result.move, explanation: result.reason, cost: result.cost };
+    // No legal move or no answer from the model: the local engine plays this turn, the failed attempts are still paid for
+    const fallback = await createMonteCarloEngine(GEMINI_FALLBACK_LEVEL).genmove(board, signal, onProgress);
+    return fallback && {
+      ...fallback,
+      cost: result.cost,
+      fallbackNotice: `${result.reason} The local engine played this move instead.`
+    };
+  }
+});
+
+export const LOCAL_GTP_ENGINE_ID = 'gtp_local';
+
+// Rejects as soon as `signal` aborts; `promise` itself keeps running
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('Aborted'));
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Any GTP engine behind the WebSocket bridge (scripts/gtp-bridge.js). The connection is opened on
+ * first use and the engine's board is kept in step: only moves it hasn't seen are sent.
+ */
+export const createGtpEngine = (url: string, name: string, connected?: GtpClient): GoEngine => {
+  let client: GtpClient | null = connected ?? null;
+  let synced: string[] = []; // Commands the engine's board currently reflects
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // One conversation with the engine at a time, so commands for different positions never interleave
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const setUp = async (board: BoardState): Promise<GtpClient> => {
+    if (!client || client.isClosed()) {
+      client = await connectGtpWebSocket(url);
+      synced = [];
+    }
+    const commands = gtpPositionCommands(board);
+    const upToDate = synced.length <= commands.length && synced.every((c, i) => c === commands[i]);
+    if (!upToDate) synced = [];
+    for (const command of commands.slice(synced.length)) {
+      await client.command(command);
+      synced.push(command);
+    }
+    return client;
+  };
+
+  return {
+    id: LOCAL_GTP_ENGINE_ID,
+    displayName: name,
+    group: 'Local engine',
+    player: { name },
+    capabilities: { hints: false, score: true, analysis: false, maxBoardSize: MAX_BOARD_SIZE, paid: false },
+    genmove: (board, signal) => abortable(exclusive(async () => {
+      const gtp = await setUp(board);
+      const vertex = await gtp.genmove(board.turn);
+      const move = fromGtpMove(vertex, board.size);
+      if (!move) throw new Error(`Invalid move received from ${name}: ${vertex}`);
+      // The engine has played it on its own board; a cancelled move shows up as a mismatch next time
+      if (move.type !== 'RESIGN') synced.push(`play ${board.turn === 'BLACK' ? 'B' : 'W'} ${vertex}`);
+      return { move };
+    }), signal),
+    score: (board, signal) => abortable(exclusive(async () => {
+      const gtp = await setUp(board);
+      const dead = await gtp.finalStatusList('dead');
+      return dead.flatMap(vertex => {
+        const point = fromGtpCoordinate(vertex, board.size);
+        return point ? [`${point.x},${point.y}`] : [];
+      });
+    }), signal),
+    close: () => {
+      client?.close();
+      client = null;
+    }
+  };
+};
+
+// Connects to the bridge and names the engine after what it reports, e.g. "GNU Go 3.8"
+export const connectGtpEngine = async (url: string): Promise<GoEngine> => {
+  const client = await connectGtpWebSocket(url);
+  try {
+    const [name, version] = await Promise.all([client.name(), client.version().catch(() => '')]);
+    return createGtpEngine(url, `${name} ${version}`.trim(), client);
+  } catch (e) {
+    client.close();
+    throw e;
+  }
+};
+
+const registry = new Map<string, GoEngine>();
+
+// Replaces (and closes) any engine already registered under the same id
+export const registerEngine = (engine: GoEngine) => {
+  const previous = registry.get(engine.id);
+  if (previous && previous !== engine) previous.close?.();
+  registry.set(engine.id, engine);
+};
+
+export const unregisterEngine = (id: string) => {
+  registry.get(id)?.close?.();
+  registry.delete(id);
+};
+
+[-5, -4, -3, -2, -1, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].forEach(level => registerEngine(createGnuGoEngine(level)));
+[1, 2, 3, 4, 5].forEach(level => registerEngine(createMonteCarloEngine(level)));
+registerEngine(createGeminiEngine('gemini-3-flash-preview', 'Gemini Flash'));
+registerEngine(createGeminiEngine('gemini-3-pro-preview', 'Gemini Pro'));
+
+// Older saves stored Monte Carlo levels as plain numbers
+export const getEngine = (id: string | number): GoEngine | undefined =>
+  registry.get(typeof id === 'number' ? `montecarlo_${id}` : id);
+
+// Engines that can't judge dead stones leave it to the local one
+export const getScoringEngine = (id: string | number): GoEngine => {
+  const engine = getEngine(id);
+  return engine?.score ? engine : registry.get(LOCAL_SCORING_ENGINE_ID)!;
+};
+
+// The White player against `opponentModel` for the game record (the student always plays Black); null for human v. human
+export const opponentPlayer = (opponentModel: string | number): GoEngine['player'] | null => {
+  if (opponentModel === HUMAN_OPPONENT) return null;
+  const engine = getEngine(opponentModel);
+  return engine ? { ...engine.player } : { name: String(opponentModel) };
+};
+
+// In registration order, for the opponent menu
+export const listEngines = (): GoEngine[] => [...registry.values()].filter(engine => !engine.hidden);
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { StoneColor } from '../types';
+import { fromStones, isLegalFast, playFast, passFast, BLACK, WHITE, EMPTY } from './fastBoard';
+import { RULE_SETS } from './ruleSets';
+
+// Rows top to bottom: 'X' Black, 'O' White, anything else empty
+const stonesFrom = (rows: string[]): Map<string, StoneColor> => {
+  const stones = new Map<string, StoneColor>();
+  rows.forEach((row, y) => [...row].forEach((ch, x) => {
+    if (ch === 'X') stones.set(`${x},${y}`, 'BLACK');
+    if (ch === 'O') stones.set(`${x},${y}`, 'WHITE');
+  }));
+  return stones;
+};
+
+// Black to play at (2,1) captures the White stone at (1,1) and starts a ko
+const KO = [
+  '.XO..',
+  'XO.O.',
+  '.XO..',
+  '.....',
+  '.....'
+];
+
+// Black at (1,0) would fill its group's last liberty; with (0,2) the corner group has one too
+const SUICIDE = [
+  'X.O..',
+  'XO...',
+  'O....',
+  '.....',
+  '.....'
+];
+
+const point = (x: number, y: number) => y * 5 + x;
+
+describe('isLegalFast / playFast', () => {
+  it('captures and forbids the immediate ko recapture', () => {
+    const fb = fromStones(stonesFrom(KO), 5);
+    expect(playFast(fb, point(2, 1))).toBe(1);
+    expect(fb.cells[point(1, 1)]).toBe(EMPTY);
+    expect(fb.koPoint).toBe(point(1, 1));
+    expect(isLegalFast(fb, point(1, 1))).toBe(false);
+    expect(playFast(fb, point(1, 1))).toBe(-1);
+  });
+
+  it('allows the ko recapture after a move elsewhere', () => {
+    const fb = fromStones(stonesFrom(KO), 5);
+    playFast(fb, point(2, 1));
+    passFast(fb);
+    passFast(fb);
+    expect(fb.turn).toBe(WHITE);
+    expect(playFast(fb, point(1, 1))).toBe(1);
+  });
+
+  it('rejects an occupied point', () => {
+    const fb = fromStones(stonesFrom(KO), 5);
+    expect(isLegalFast(fb, point(1, 0))).toBe(false);
+  });
+
+  it('rejects a single-stone suicide even where suicide is allowed', () => {
+    const fb = fromStones(stonesFrom(['.O...', 'O....', '.....', '.....', '.....']), 5, true);
+    expect(isLegalFast(fb, point(0, 0))).toBe(false);
+  });
+
+  it('rejects multi-stone suicide unless the rules allow it', () => {
+    const forbidden = fromStones(stonesFrom(SUICIDE), 5, RULE_SETS.CHINESE.allowSuicide);
+    expect(playFast(forbidden, point(1, 0))).toBe(-1);
+
+    const allowed = fromStones(stonesFrom(SUICIDE), 5, RULE_SETS.NEW_ZEALAND.allowSuicide);
+    expect(playFast(allowed, point(1, 0))).toBe(0);
+    [point(0, 0), point(1, 0), point(0, 1)].forEach(p => expect(allowed.cells[p]).toBe(EMPTY));
+    expect(allowed.captures[WHITE]).toBe(3);
+  });
+
+  it('prefers capturing over suicide', () => {
+    const fb = fromStones(stonesFrom(['.OX..', 'OX...', 'X....', '.....', '.....']), 5);
+    expect(playFast(fb, point(0, 0))).toBe(2);
+    expect(fb.cells[point(0, 0)]).toBe(BLACK);
+  });
+});
@@ -0,0 +1,420 @@
+
+import { BoardState, StoneColor } from '../types';
+
+/**
+ * Flat typed-array board used by the rules engine and the Monte Carlo playouts.
+ * Points are indexed `y * size + x`; cells hold EMPTY / BLACK / WHITE.
+ * The position is hashed incrementally with 64-bit Zobrist keys (two 32-bit halves),
+ * which gives cheap position keys for ko detection and caching.
+ *
+ * Chains are tracked incrementally as stones are placed and captured: every stone
+ * points at its chain's head, the stones of a chain form a ring, and the head holds
+ * the chain's size plus its liberties as a bitset with a running count. Merging
+ * relabels the smaller chain, so "liberties of the chain at X" is a constant-time lookup.
+ *
+ * `BoardState` (with its `stones` Map) stays the public shape for components;
+ * `fromBoardState` / `toStonesMap` convert between the two.
+ */
+
+export const EMPTY = 0;
+export const BLACK = 1;
+export const WHITE = 2;
+export type PointColor = typeof BLACK | typeof WHITE;
+
+export interface FastBoard {
+  size: number;
+  cells: Uint8Array;
+  turn: PointColor;
+  koPoint: number; // -1 when there is no ko
+  captures: [number, number, number]; // Indexed by colour: stones captured BY that colour
+  hashHi: number;
+  hashLo: number;
+  allowSuicide: boolean;
+  chainHead: Int16Array; // Head point of the chain each stone belongs to, -1 for empty points
+  chainNext: Int16Array; // Next stone in the chain's ring
+  chainSize: Int16Array; // Stones in the chain (valid at head points)
+  libCount: Int16Array; // Liberties of the chain (valid at head points)
+  libBits: Uint32Array; // Liberty bitset of the chain, `libWords` words per head point
+}
+
+export const opponentOf = (color: PointColor): PointColor => (color === BLACK ? WHITE : BLACK);
+export const toPointColor = (color: StoneColor): PointColor => (color === 'BLACK' ? BLACK : WHITE);
+export const toStoneColor = (color: number): StoneColor => (color === BLACK ? 'BLACK' : 'WHITE');
+
+// --- Per-size tables (neighbours, Zobrist keys) ---
+
+interface SizeTables {
+  neighbors: Int16Array; // 4 entries per point, -1 past the edge
+  zobrist: Uint32Array; // [point][colour - 1][hi, lo]
+  libWords: number; // 32-bit words per liberty bitset
+}
+
+const tablesBySize = new Map<number, SizeTables>();
+
+// Deterministic xorshift32 so Zobrist keys are stable between sessions (usable as cache keys)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return state >>> 0;
+  };
+};
+
+const getTables = (size: number): SizeTables => {
+  let tables = tablesBySize.get(size);
+  if (tables) return tables;
+
+  const points = size * size;
+  const neighbors = new Int16Array(points * 4).fill(-1);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const base = (y * size + x) * 4;
+      if (x > 0) neighbors[base] = y * size + x - 1;
+      if (x < size - 1) neighbors[base + 1] = y * size + x + 1;
+      if (y > 0) neighbors[base + 2] = (y - 1) * size + x;
+      if (y < size - 1) neighbors[base + 3] = (y + 1) * size + x;
+    }
+  }
+
+  const random = createRandom(0x9e3779b9 ^ size);
+  const zobrist = new Uint32Array(points * 4);
+  for (let i = 0; i < zobrist.length; i++) zobrist[i] = random();
+
+  tables = { neighbors, zobrist, libWords: Math.ceil(points / 32) };
+  tablesBySize.set(size, tables);
+  return tables;
+};
+
+// Neighbours of every point, 4 per point (-1 past the edge), for code walking the board
+export const neighborTable = (size: number): Int16Array => getTables(size).neighbors;
+
+const toggleHash = (fb: FastBoard, point: number, color: PointColor, zobrist: Uint32Array) => {
+  const base = point * 4 + (color - 1) * 2;
+  fb.hashHi = (fb.hashHi ^ zobrist[base]) >>> 0;
+  fb.hashLo = (fb.hashLo ^ zobrist[base + 1]) >>> 0;
+};
+
+// --- Chains ---
+
+const popCount = (v: number): number => {
+  v = v - ((v >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+const addLiberty = (fb: FastBoard, head: number, point: number, libWords: number) => {
+  const word = head * libWords + (point >>> 5);
+  const bit = 1 << (point & 31);
+  if (fb.libBits[word] & bit) return;
+  fb.libBits[word] |= bit;
+  fb.libCount[head]++;
+};
+
+const removeLiberty = (fb: FastBoard, head: number, point: number, libWords: number) => {
+  const word = head * libWords + (point >>> 5);
+  const bit = 1 << (point & 31);
+  if (!(fb.libBits[word] & bit)) return;
+  fb.libBits[word] &= ~bit;
+  fb.libCount[head]--;
+};
+
+// Folds the chain headed by `b` into the one headed by `a`; returns the surviving head
+const mergeChains = (fb: FastBoard, a: number, b: number, libWords: number): number => {
+  if (fb.chainSize[a] < fb.chainSize[b]) [a, b] = [b, a];
+
+  let stone = b;
+  do {
+    fb.chainHead[stone] = a;
+    stone = fb.chainNext[stone];
+  } while (stone !== b);
+
+  // Splice the two rings together
+  const next = fb.chainNext[a];
+  fb.chainNext[a] = fb.chainNext[b];
+  fb.chainNext[b] = next;
+  fb.chainSize[a] += fb.chainSize[b];
+
+  let liberties = 0;
+  for (let w = 0; w < libWords; w++) {
+    const merged = fb.libBits[a * libWords + w] | fb.libBits[b * libWords + w];
+    fb.libBits[a * libWords + w] = merged;
+    liberties += popCount(merged);
+  }
+  fb.libCount[a] = liberties;
+  return a;
+};
+
+// Registers the stone already in `cells[point]` as a chain, taking a liberty from its
+// neighbours and merging with friendly chains. Neighbours not linked yet are skipped.
+const linkStone = (fb: FastBoard, point: number) => {
+  const { neighbors, libWords } = getTables(fb.size);
+  const color = fb.cells[point];
+  const base = point * 4;
+
+  fb.chainHead[point] = point;
+  fb.chainNext[point] = point;
+  fb.chainSize[point] = 1;
+  fb.libCount[point] = 0;
+  fb.libBits.fill(0, point * libWords, (point + 1) * libWords);
+
+  let head = point;
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[base + d];
+    if (n < 0) continue;
+    if (fb.cells[n] === EMPTY) {
+      addLiberty(fb, head, n, libWords);
+    } else if (fb.chainHead[n] >= 0) {
+      removeLiberty(fb, fb.chainHead[n], point, libWords);
+    }
+  }
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[base + d];
+    if (n < 0 || fb.cells[n] !== color || fb.chainHead[n] < 0) continue;
+    if (fb.chainHead[n] !== head) head = mergeChains(fb, head, fb.chainHead[n], libWords);
+  }
+};
+
+// Takes the chain at `point` off the board, handing its points back as liberties; returns its size
+const removeChain = (fb: FastBoard, point: number): number => {
+  const { neighbors, zobrist, libWords } = getTables(fb.size);
+  const head = fb.chainHead[point];
+  const size = fb.chainSize[head];
+
+  let stone = head;
+  do {
+    toggleHash(fb, stone, fb.cells[stone] as PointColor, zobrist);
+    fb.cells[stone] = EMPTY;
+    fb.chainHead[stone] = -1;
+    stone = fb.chainNext[stone];
+  } while (stone !== head);
+
+  do {
+    const base = stone * 4;
+    for (let d = 0; d < 4; d++) {
+      const n = neighbors[base + d];
+      if (n >= 0 && fb.chainHead[n] >= 0) addLiberty(fb, fb.chainHead[n], stone, libWords);
+    }
+    stone = fb.chainNext[stone];
+  } while (stone !== head);
+
+  return size;
+};
+
+const rebuildChains = (fb: FastBoard) => {
+  fb.chainHead.fill(-1);
+  for (let p = 0; p < fb.cells.length; p++) {
+    if (fb.cells[p] !== EMPTY) linkStone(fb, p);
+  }
+};
+
+// --- Construction & conversion ---
+
+export const createFastBoard = (size: number, allowSuicide: boolean = false): FastBoard => {
+  const points = size * size;
+  const { libWords } = getTables(size);
+  return {
+    size,
+    cells: new Uint8Array(points),
+    turn: BLACK,
+    koPoint: -1,
+    captures: [0, 0, 0],
+    hashHi: 0,
+    hashLo: 0,
+    allowSuicide,
+    chainHead: new Int16Array(points).fill(-1),
+    chainNext: new Int16Array(points),
+    chainSize: new Int16Array(points),
+    libCount: new Int16Array(points),
+    libBits: new Uint32Array(points * libWords)
+  };
+};
+
+export const cloneFastBoard = (fb: FastBoard): FastBoard => ({
+  ...fb,
+  cells: fb.cells.slice(),
+  captures: [fb.captures[0], fb.captures[1], fb.captures[2]],
+  chainHead: fb.chainHead.slice(),
+  chainNext: fb.chainNext.slice(),
+  chainSize: fb.chainSize.slice(),
+  libCount: fb.libCount.slice(),
+  libBits: fb.libBits.slice()
+});
+
+/**
+ * Sets a point without applying captures (setup positions). Adding a stone updates the
+ * chains incrementally; removing or recolouring one can split a chain, so they are rebuilt.
+ */
+export const setPoint = (fb: FastBoard, point: number, color: number) => {
+  const current = fb.cells[point];
+  if (current === color) return;
+  const { zobrist } = getTables(fb.size);
+  if (current !== EMPTY) toggleHash(fb, point, current as PointColor, zobrist);
+  if (color !== EMPTY) toggleHash(fb, point, color as PointColor, zobrist);
+  fb.cells[point] = color;
+
+  if (current === EMPTY) linkStone(fb, point);
+  else rebuildChains(fb);
+};
+
+export const fromStones = (stones: Map<string, StoneColor>, size: number, allowSuicide: boolean = false): FastBoard => {
+  const fb = createFastBoard(size, allowSuicide);
+  stones.forEach((color, key) => {
+    const comma = key.indexOf(',');
+    const x = +key.slice(0, comma);
+    const y = +key.slice(comma + 1);
+    setPoint(fb, y * size + x, toPointColor(color));
+  });
+  return fb;
+};
+
+export const fromBoardState = (state: BoardState): FastBoard => {
+  const fb = fromStones(state.stones, state.size, state.rules.allowSuicide);
+  fb.turn = toPointColor(state.turn);
+  fb.koPoint = state.koPoint ? state.koPoint.y * state.size + state.koPoint.x : -1;
+  fb.captures = [0, state.captures.BLACK, state.captures.WHITE];
+  return fb;
+};
+
+export const toStonesMap = (fb: FastBoard): Map<string, StoneColor> => {
+  const stones = new Map<string, StoneColor>();
+  for (let i = 0; i < fb.cells.length; i++) {
+    const color = fb.cells[i];
+    if (color !== EMPTY) stones.set(`${i % fb.size},${Math.floor(i / fb.size)}`, toStoneColor(color));
+  }
+  return stones;
+};
+
+// Zobrist key of the stones on the board (player to move not included), as 16 hex chars
+export const hashKey = (hi: number, lo: number): string =>
+  hi.toString(16).padStart(8, '0') + lo.toString(16).padStart(8, '0');
+
+export const positionKeyOf = (fb: FastBoard): string => hashKey(fb.hashHi, fb.hashLo);
+
+// --- Chain queries (constant time except `chainStones`) ---
+
+export const libertiesAt = (fb: FastBoard, point: number): number => {
+  const head = fb.chainHead[point];
+  return head < 0 ? 0 : fb.libCount[head];
+};
+
+export const chainSizeAt = (fb: FastBoard, point: number): number => {
+  const head = fb.chainHead[point];
+  return head < 0 ? 0 : fb.chainSize[head];
+};
+
+export const sameChain = (fb: FastBoard, a: number, b: number): boolean =>
+  fb.chainHead[a] >= 0 && fb.chainHead[a] === fb.chainHead[b];
+
+export const chainStones = (fb: FastBoard, point: number): number[] => {
+  const head = fb.chainHead[point];
+  if (head < 0) return [];
+  const stones: number[] = [];
+  let stone = head;
+  do {
+    stones.push(stone);
+    stone = fb.chainNext[stone];
+  } while (stone !== head);
+  return stones;
+};
+
+// Liberty points of the chain at `point`, read from its bitset
+export const chainLiberties = (fb: FastBoard, point: number): number[] => {
+  const head = fb.chainHead[point];
+  if (head < 0) return [];
+  const { libWords } = getTables(fb.size);
+  const liberties: number[] = [];
+  for (let w = 0; w < libWords; w++) {
+    let bits = fb.libBits[head * libWords + w];
+    while (bits) {
+      const low = bits & -bits;
+      liberties.push(w * 32 + 31 - Math.clz32(low));
+      bits ^= low;
+    }
+  }
+  return liberties;
+};
+
+// --- Rules ---
+
+// Simple legality for the player to move: empty, not the ko point, and not suicide (unless allowed)
+export const isLegalFast = (fb: FastBoard, point: number): boolean => {
+  if (fb.cells[point] !== EMPTY || point === fb.koPoint) return false;
+
+  const { neighbors } = getTables(fb.size);
+  const color = fb.turn;
+  const base = point * 4;
+  let friendlyNeighbor = false;
+
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[base + d];
+    if (n < 0) continue;
+    const c = fb.cells[n];
+    if (c === EMPTY) return true;
+    if (c === color) {
+      friendlyNeighbor = true;
+      if (fb.libCount[fb.chainHead[n]] >= 2) return true; // Connects to a chain with a spare liberty
+    } else if (fb.libCount[fb.chainHead[n]] === 1) {
+      return true; // Captures
+    }
+  }
+
+  // Suicide: only multi-stone suicide can be allowed
+  return fb.allowSuicide && friendlyNeighbor;
+};
+
+/**
+ * Plays a stone for the player to move (mutates the board).
+ * Returns the number of opponent stones captured, or -1 if the move is illegal
+ * (occupied, ko, suicide). Superko is checked by the caller against its position history.
+ */
+export const playFast = (fb: FastBoard, point: number): number => {
+  if (!isLegalFast(fb, point)) return -1;
+
+  const { neighbors } = getTables(fb.size);
+  const color = fb.turn;
+  const opponent = opponentOf(color);
+  const base = point * 4;
+  setPoint(fb, point, color);
+
+  let captured = 0;
+  let capturedPoint = -1;
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[base + d];
+    if (n < 0 || fb.cells[n] !== opponent) continue;
+    if (fb.libCount[fb.chainHead[n]] === 0) {
+      captured += removeChain(fb, n);
+      capturedPoint = n;
+    }
+  }
+
+  const head = fb.chainHead[point];
+  const ownLiberties = fb.libCount[head];
+  const ownSize = fb.chainSize[head];
+  const selfCaptured = ownLiberties === 0 ? removeChain(fb, point) : 0;
+
+  // A lone stone that captured exactly one stone and now has one liberty creates a ko
+  fb.koPoint = captured === 1 && ownLiberties === 1 && ownSize === 1 ? capturedPoint : -1;
+
+  fb.captures[color] += captured;
+  fb.captures[opponent] += selfCaptured;
+  fb.turn = opponent;
+  return captured;
+};
+
+export const passFast = (fb: FastBoard) => {
+  fb.koPoint = -1;
+  fb.turn = opponentOf(fb.turn);
+};
+
+// A point whose neighbours are all stones of `color`
+export const isOwnEyeFast = (fb: FastBoard, point: number, color: PointColor): boolean => {
+  const { neighbors } = getTables(fb.size);
+  const base = point * 4;
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[base + d];
+    if (n >= 0 && fb.cells[n] !== color) return false;
+  }
+  return true;
+};
@@ -0,0 +1,150 @@
+
+import { ChatMessage } from '../types';
+import { parseSgf, buildGameTreeFromSgf } from './sgfService';
+import { getCurrentBoard } from './gameTree';
+import { DEFAULT_RULE_SET } from './ruleSets';
+
+/**
+ * Local game library, kept in IndexedDB: games saved by the player, plus an autosave
+ * of the game in progress so a refresh or crash never loses it.
+ */
+
+const DB_NAME = 'gocratic';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+const AUTOSAVE_STORE = 'autosave';
+const AUTOSAVE_KEY = 'current';
+
+export interface LibraryGame {
+  id: string;
+  sgf: string;
+  savedAt: number; // ms since epoch
+  size: number;
+  moveCount: number; // Main line
+  black: string;
+  white: string;
+  opponent: string; // The White player with their level, e.g. "GNU Go (Level 5)"
+  result: string | null; // SGF RE[] value, e.g. "W+R"
+  tags: string[];
+  thumbnail: string; // Final position, row by row: '.', 'B' or 'W' per point
+}
+
+// The game in progress, with what the SGF can't carry faithfully, and the settings in use
+export interface AutosaveSnapshot {
+  sgf: string;
+  messages: ChatMessage[];
+  opponentModel: string | number;
+  gnugoUrl?: string; // Missing in snapshots saved before the endpoint was configurable
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GAMES_STORE)) db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) db.createObjectStore(AUTOSAVE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. after the user allows storage)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once the transaction has committed
+const run = async <T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const newId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Players, result, size and move count come from the SGF record, the thumbnail from the end of its main line
+const createLibraryEntry = (sgf: string, id: string, tags: string[]): LibraryGame | null => {
+  const parsed = parseSgf(sgf);
+  if (!parsed.isValid || !parsed.game) return null;
+
+  const root = parsed.game.nodes[0] || {};
+  const board = getCurrentBoard(buildGameTreeFromSgf(parsed, DEFAULT_RULE_SET));
+  let thumbnail = '';
+  for (let y = 0; y < board.size; y++) {
+    for (let x = 0; x < board.size; x++) {
+      const color = board.stones.get(`${x},${y}`);
+      thumbnail += color === 'BLACK' ? 'B' : color === 'WHITE' ? 'W' : '.';
+    }
+  }
+
+  const white = root.PW?.[0] || 'White';
+  return {
+    id,
+    sgf,
+    savedAt: Date.now(),
+    size: parsed.size,
+    moveCount: parsed.moves.length,
+    black: root.PB?.[0] || 'Black',
+    white,
+    opponent: root.WR?.[0] ? `${white} (${root.WR[0]})` : white,
+    result: root.RE?.[0] || null,
+    tags,
+    thumbnail
+  };
+};
+
+// Newest first
+export const listGames = async (): Promise<LibraryGame[]> => {
+  const games = await run<LibraryGame[]>(GAMES_STORE, 'readonly', store => store.getAll());
+  return games.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+const getGame = (id: string): Promise<LibraryGame | undefined> =>
+  run<LibraryGame | undefined>(GAMES_STORE, 'readonly', store => store.get(id));
+
+const putGame = async (game: LibraryGame): Promise<void> => {
+  await run(GAMES_STORE, 'readwrite', store => store.put(game));
+};
+
+/**
+ * Saves an SGF record to the library. With the `id` of an existing entry that entry is
+ * replaced (keeping its tags). Returns the entry, or null if the SGF can't be read.
+ */
+export const saveSgfToLibrary = async (sgf: string, id?: string): Promise<LibraryGame | null> => {
+  const existing = id ? await getGame(id) : undefined;
+  const entry = createLibraryEntry(sgf, id ?? newId(), existing?.tags ?? []);
+  if (entry) await putGame(entry);
+  return entry;
+};
+
+export const deleteGame = async (id: string): Promise<void> => {
+  await run(GAMES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const setGameTags = async (id: string, tags: string[]): Promise<void> => {
+  const game = await getGame(id);
+  if (game) await putGame({ ...game, tags });
+};
+
+export const saveAutosave = async (snapshot: AutosaveSnapshot): Promise<void> => {
+  await run(AUTOSAVE_STORE, 'readwrite', store => store.put(snapshot, AUTOSAVE_KEY));
+};
+
+export const loadAutosave = async (): Promise<AutosaveSnapshot | null> => {
+  const snapshot = await run<AutosaveSnapshot | undefined>(AUTOSAVE_STORE, 'readonly', store => store.get(AUTOSAVE_KEY));
+  return snapshot ?? null;
+};
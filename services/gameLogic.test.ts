@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { BoardState, RuleSet } from '../types';
+import {
+  createBoard, placeStone, tryPlaceStone, playPass, calculateAreaScore, calculateTerritoryScore,
+  getFixedHandicapPoints, getMaxFixedHandicap, setStone, getReplayStart
+} from './gameLogic';
+import { toGtpMoveList } from './gnugoService';
+import { RULE_SETS } from './ruleSets';
+
+// 5x5, Black to play: Black at (2,1) captures the White stone at (1,1) and starts a ko
+//   . X O . .
+//   X O . O .
+//   . X O . .
+//   . . . . .
+//   . . . . X
+const koPosition = (rules: RuleSet): BoardState => {
+  let state = createBoard(5, rules);
+  const moves = [[1, 0], [2, 0], [0, 1], [1, 1], [1, 2], [3, 1], [4, 4], [2, 2]];
+  moves.forEach(([x, y]) => { state = placeStone(state, { x, y })!; });
+  return state;
+};
+
+describe('superko per rule set', () => {
+  // Black takes the ko, both pass (lifting the simple ko), then White retakes: the retake
+  // recreates the position before Black's capture, with Black to move again
+  const retakeAfterPasses = (rules: RuleSet) => {
+    let state = tryPlaceStone(koPosition(rules), { x: 2, y: 1 }).state!;
+    state = playPass(playPass(state));
+    return tryPlaceStone(state, { x: 1, y: 1 });
+  };
+
+  it('allows the repetition under simple ko (Japanese)', () => {
+    expect(retakeAfterPasses(RULE_SETS.JAPANESE).reason).toBeNull();
+  });
+
+  it('forbids it under positional superko (Chinese)', () => {
+    expect(retakeAfterPasses(RULE_SETS.CHINESE)).toEqual({ state: null, reason: 'SUPERKO' });
+  });
+
+  it('forbids it under situational superko (AGA)', () => {
+    expect(retakeAfterPasses(RULE_SETS.AGA)).toEqual({ state: null, reason: 'SUPERKO' });
+  });
+
+  it('reports a plain ko recapture as KO', () => {
+    const state = tryPlaceStone(koPosition(RULE_SETS.JAPANESE), { x: 2, y: 1 }).state!;
+    expect(tryPlaceStone(state, { x: 1, y: 1 }).reason).toBe('KO');
+  });
+});
+
+describe('scoring', () => {
+  // 5x5, Black wall on column 1, White wall on column 3: five stones and five points of area each
+  const splitBoard = (komi: number): BoardState => {
+    let state = createBoard(5, { ...RULE_SETS.CHINESE, komi });
+    [0, 1, 2, 3, 4].forEach(y => {
+      state = placeStone(state, { x: 1, y })!;
+      state = placeStone(state, { x: 3, y })!;
+    });
+    return state;
+  };
+
+  it('reports an even count as jigo, not as a win', () => {
+    expect(calculateAreaScore(splitBoard(0))).toMatchObject({ blackTotal: 10, whiteTotal: 10, winner: null, diff: 0 });
+    expect(calculateTerritoryScore(splitBoard(0))).toMatchObject({ blackTotal: 5, whiteTotal: 5, winner: null, diff: 0 });
+  });
+
+  it('lets komi decide an otherwise even game', () => {
+    expect(calculateAreaScore(splitBoard(0.5))).toMatchObject({ winner: 'WHITE', diff: 0.5 });
+  });
+});
+
+describe('fixed handicap', () => {
+  it('places up to nine stones on odd boards from 7x7', () => {
+    expect(getMaxFixedHandicap(7)).toBe(9);
+    expect(getMaxFixedHandicap(19)).toBe(9);
+    expect(getFixedHandicapPoints(7, 9)).toHaveLength(9);
+    expect(createBoard(19, RULE_SETS.JAPANESE, 5).handicapStones).toContainEqual({ x: 9, y: 9 });
+  });
+
+  it('places only the four corners on even boards', () => {
+    expect(getMaxFixedHandicap(8)).toBe(4);
+    expect(getFixedHandicapPoints(8, 4)).toEqual([{ x: 2, y: 5 }, { x: 5, y: 2 }, { x: 5, y: 5 }, { x: 2, y: 2 }]);
+    expect(getFixedHandicapPoints(8, 5)).toEqual([]);
+  });
+
+  it('has no handicap points below 7x7', () => {
+    expect(getMaxFixedHandicap(5)).toBe(0);
+    expect(getMaxFixedHandicap(6)).toBe(0);
+    const board = createBoard(5, RULE_SETS.JAPANESE, 2);
+    expect(board.handicapStones).toEqual([]);
+    expect(board.turn).toBe('BLACK');
+  });
+});
+
+describe('setup edits', () => {
+  it('makes an edit before the first move part of the initial position', () => {
+    const state = setStone(createBoard(9, RULE_SETS.JAPANESE), { x: 4, y: 4 }, 'WHITE');
+    expect(state.initialPosition.stones.get('4,4')).toBe('WHITE');
+    expect(state.setupEdits).toEqual([]);
+  });
+
+  it('keeps the moves when stones are edited mid-game', () => {
+    let state = createBoard(9, RULE_SETS.JAPANESE);
+    state = placeStone(state, { x: 2, y: 2 })!;
+    state = placeStone(state, { x: 6, y: 6 })!;
+    state = setStone(state, { x: 4, y: 4 }, 'WHITE');
+    state = setStone(state, { x: 6, y: 6 }, null);
+
+    expect(state.history).toHaveLength(2);
+    expect(state.initialPosition.stones.size).toBe(0);
+    expect(state.setupEdits).toEqual([{ moveNumber: 2, position: { stones: state.stones, turn: 'BLACK' } }]);
+    expect(getReplayStart(state, 1)).toEqual({ moveNumber: 0, position: state.initialPosition });
+  });
+
+  it('replays engines from the edited position', () => {
+    let state = createBoard(9, RULE_SETS.JAPANESE);
+    state = placeStone(state, { x: 2, y: 2 })!;
+    state = placeStone(state, { x: 6, y: 6 })!;
+    state = setStone(state, { x: 6, y: 6 }, null);
+    state = setStone(state, { x: 4, y: 4 }, 'WHITE');
+    state = placeStone(state, { x: 3, y: 3 })!;
+    expect(toGtpMoveList(state)).toEqual(['B C7', 'W E5', 'B D6']);
+  });
+});
@@ -1,19 +1,181 @@
 
-import { BoardState, StoneColor, Coordinate, ScoreResult } from '../types';
-import { toGtpCoordinate, COLS } from './gtpUtils';
+import { BoardState, StoneColor, Coordinate, ScoreResult, IllegalMoveReason, RuleSet, InitialPosition, SetupEdit, Stone } from '../types';
+import { toGtpCoordinate, toGtpMove, COLS } from './gtpUtils';
+import { DEFAULT_RULE_SET, withHandicapKomi } from './ruleSets';
+import {
+  EMPTY, BLACK, WHITE, fromBoardState, fromStones, toStonesMap, cloneFastBoard,
+  isLegalFast, playFast, positionKeyOf, libertiesAt
+} from './fastBoard';
 
-export const KOMI = 0;
+/**
+ * Zobrist key describing which stones are where (16 hex chars).
+ * Used for superko detection; the player to move is not part of the key.
+ */
+export const getPositionKey = (stones: Map<string, StoneColor>, size: number): string =>
+  positionKeyOf(fromStones(stones, size));
+
+// Entry stored in BoardState.positionHistory: the position key plus the player to move
+const positionEntry = (positionKey: string, toMove: StoneColor): string =>
+  positionKey + (toMove === 'BLACK' ? 'b' : 'w');
+
+// Would reaching `positionKey` with `toMove` to play repeat an earlier position under the board's superko rule?
+const violatesSuperko = (state: BoardState, positionKey: string, toMove: StoneColor): boolean => {
+  switch (state.rules.koRule) {
+    case 'POSITIONAL_SUPERKO':
+      return state.positionHistory.some(entry => entry.startsWith(positionKey));
+    case 'SITUATIONAL_SUPERKO':
+      return state.positionHistory.includes(positionEntry(positionKey, toMove));
+    default:
+      return false;
+  }
+};
 
-export const createBoard = (size: number = 9): BoardState => ({
-  size,
-  stones: new Map(),
-  lastMove: null,
-  captures: { BLACK: 0, WHITE: 0 },
-  turn: 'BLACK',
+export const MIN_BOARD_SIZE = 5;
+export const MAX_BOARD_SIZE = 25; // GTP column letters (A-Z without I) run out after 25
+export const BOARD_SIZE_PRESETS = [5, 7, 9, 13, 19];
+
+export const isValidBoardSize = (size: number): boolean =>
+  Number.isInteger(size) && size >= MIN_BOARD_SIZE && size <= MAX_BOARD_SIZE;
+
+/**
+ * Hoshi (star points) for any size: the 3-3 points below 13x13 and the 4-4 points from 13x13 up,
+ * plus tengen on odd boards and the side points from 15x15 up. Boards under 7x7 only get tengen.
+ */
+export const getStarPoints = (size: number): Coordinate[] => {
+  const mid = (size - 1) / 2;
+  const hasCenter = size % 2 === 1;
+  if (size < 7) return hasCenter ? [{ x: mid, y: mid }] : [];
+
+  const edge = size >= 13 ? 3 : 2;
+  const far = size - 1 - edge;
+  const points = [
+    { x: edge, y: edge }, { x: far, y: edge },
+    { x: edge, y: far }, { x: far, y: far }
+  ];
+  if (hasCenter) points.push({ x: mid, y: mid });
+  if (hasCenter && size >= 15) {
+    points.push({ x: mid, y: edge }, { x: edge, y: mid }, { x: far, y: mid }, { x: mid, y: far });
+  }
+  return points;
+};
+
+/**
+ * Most fixed handicap stones a size has star points for: 9 on odd boards from 7x7,
+ * 4 (the corners) on even ones, none below 7x7.
+ */
+export const getMaxFixedHandicap = (size: number): number =>
+  size < 7 ? 0 : size % 2 === 1 ? 9 : 4;
+
+/**
+ * Standard fixed handicap points for 2-9 stones, in the GTP `fixed_handicap` order:
+ * corners first, then the centre (odd counts), then the side star points.
+ * Empty when the size has no star points for `count` stones (see getMaxFixedHandicap).
+ */
+export const getFixedHandicapPoints = (size: number, count: number): Coordinate[] => {
+  if (count < 2 || count > getMaxFixedHandicap(size)) return [];
+
+  const edge = size >= 13 ? 3 : 2;
+  const far = size - 1 - edge;
+  const mid = (size - 1) / 2;
+  const corners = [
+    { x: edge, y: far }, // lower left
+    { x: far, y: edge }, // upper right
+    { x: far, y: far }, // lower right
+    { x: edge, y: edge } // upper left
+  ];
+  const center = { x: mid, y: mid };
+  const leftRight = [{ x: edge, y: mid }, { x: far, y: mid }];
+  const bottomTop = [{ x: mid, y: far }, { x: mid, y: edge }];
+
+  if (count <= 4) return corners.slice(0, count);
+  if (count === 5) return [...corners, center];
+  if (count === 6) return [...corners, ...leftRight];
+  if (count === 7) return [...corners, ...leftRight, center];
+  if (count === 8) return [...corners, ...leftRight, ...bottomTop];
+  return [...corners, ...leftRight, ...bottomTop, center];
+};
+
+/**
+ * Board whose record starts from `position` (setup or handicap stones plus the player to move)
+ * instead of an empty board. Used for new games and for imported setup positions.
+ */
+export const createBoardFromPosition = (
+  size: number,
+  rules: RuleSet,
+  position: InitialPosition,
+  handicapStones: Coordinate[] = []
+): BoardState => {
+  if (!isValidBoardSize(size)) {
+    throw new Error(`Board size must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE} (got ${size})`);
+  }
+  const stones = new Map(position.stones);
+
+  return {
+    size,
+    stones,
+    lastMove: null,
+    captures: { BLACK: 0, WHITE: 0 },
+    turn: position.turn,
+    history: [],
+    gameOver: false,
+    rules,
+    handicapStones,
+    initialPosition: { stones: new Map(stones), turn: position.turn },
+    setupEdits: [],
+    koPoint: null,
+    positionHistory: [positionEntry(getPositionKey(stones, size), position.turn)]
+  };
+};
+
+/**
+ * New game. With a handicap of 2+ the fixed stones are placed for Black,
+ * White moves first and komi is adjusted for the handicap.
+ */
+export const createBoard = (size: number = 9, rules: RuleSet = DEFAULT_RULE_SET, handicap: number = 0): BoardState => {
+  const handicapStones = getFixedHandicapPoints(size, handicap);
+  const stones = new Map<string, StoneColor>(handicapStones.map(c => [`${c.x},${c.y}`, 'BLACK']));
+  const turn: StoneColor = handicapStones.length > 0 ? 'WHITE' : 'BLACK';
+  return createBoardFromPosition(size, withHandicapKomi(rules, handicapStones.length), { stones, turn }, handicapStones);
+};
+
+// Makes the current stones and player to move the start of the record (setup edits before the first move)
+const restartFromCurrentPosition = (state: BoardState, stones: Map<string, StoneColor>, turn: StoneColor): BoardState => ({
+  ...state,
+  stones,
+  turn,
   history: [],
-  gameOver: false
+  lastMove: null,
+  koPoint: null,
+  initialPosition: { stones: new Map(stones), turn },
+  setupEdits: [],
+  positionHistory: [positionEntry(getPositionKey(stones, state.size), turn)]
 });
 
+// A setup edit: before the first move it redefines the start of the record; later the moves are kept
+// and the edited position is recorded as a setup edit (consecutive edits merge into one)
+const editPosition = (state: BoardState, stones: Map<string, StoneColor>, turn: StoneColor): BoardState => {
+  const moveNumber = state.history.length;
+  if (moveNumber === 0) return restartFromCurrentPosition(state, stones, turn);
+  return {
+    ...state,
+    stones,
+    turn,
+    lastMove: null,
+    koPoint: null,
+    setupEdits: [...state.setupEdits.filter(e => e.moveNumber !== moveNumber), { moveNumber, position: { stones: new Map(stones), turn } }],
+    positionHistory: [positionEntry(getPositionKey(stones, state.size), turn)]
+  };
+};
+
+/**
+ * Where replaying the record up to move `moveCount` starts: the last setup edit made by then,
+ * otherwise the initial position (move number 0).
+ */
+export const getReplayStart = (state: BoardState, moveCount: number = state.history.length): SetupEdit => {
+  const edits = state.setupEdits.filter(e => e.moveNumber <= moveCount);
+  return edits[edits.length - 1] ?? { moveNumber: 0, position: state.initialPosition };
+};
+
 export const getNeighbors = (c: Coordinate, size: number): Coordinate[] => {
   const moves = [
     { x: c.x + 1, y: c.y },
@@ -41,7 +203,7 @@ export const getGroup = (
   visited.add(startKey);
 
   while (queue.length > 0) {
-    const current = queue.shift()!;
+    const current = queue.pop()!; // Visiting order doesn't matter, and pop() avoids shift()'s O(n) copy
     const neighbors = getNeighbors(current, size);
 
     for (const n of neighbors) {
@@ -67,93 +229,110 @@ export const getGroup = (
   return { group: Array.from(group), liberties };
 };
 
-// Check if a move is a "Suicide" (0 liberties after placement and no captures)
-const isSuicide = (stones: Map<string, StoneColor>, move: Coordinate, color: StoneColor, size: number): boolean => {
-  const nextStones = new Map(stones);
-  const key = `${move.x},${move.y}`;
-  nextStones.set(key, color);
-  
-  // Check if we captured anything
-  const opponent = color === 'BLACK' ? 'WHITE' : 'BLACK';
-  const neighbors = getNeighbors(move, size);
-  let captured = false;
-  
-  for (const n of neighbors) {
-    const nKey = `${n.x},${n.y}`;
-    if (nextStones.get(nKey) === opponent) {
-      const { liberties } = getGroup(nextStones, n, opponent, size);
-      if (liberties === 0) {
-        captured = true;
-        break;
-      }
-    }
-  }
-  
-  if (captured) return false; // Not suicide if we capture
+export interface PlaceStoneResult {
+  state: BoardState | null;
+  reason: IllegalMoveReason | null; // Set when state is null
+}
 
-  // Check our own liberties
-  const { liberties } = getGroup(nextStones, move, color, size);
-  return liberties === 0;
-};
-
-export const placeStone = (currentState: BoardState, move: Coordinate): BoardState | null => {
-  if (currentState.gameOver) return null;
+/**
+ * Plays a stone for the player to move, applying captures plus the ko and suicide
+ * rules of `currentState.rules`. Returns the reason when the move is illegal so callers can explain it.
+ */
+export const tryPlaceStone = (currentState: BoardState, move: Coordinate): PlaceStoneResult => {
+  if (currentState.gameOver) return { state: null, reason: 'GAME_OVER' };
   
   const key = `${move.x},${move.y}`;
-  if (currentState.stones.has(key)) return null; // Occupied
+  if (currentState.stones.has(key)) return { state: null, reason: 'OCCUPIED' };
+
+  // Simple ko: the stone that just captured a single stone can't be retaken immediately
+  const { koPoint } = currentState;
+  if (koPoint && koPoint.x === move.x && koPoint.y === move.y) {
+    return { state: null, reason: 'KO' };
+  }
 
   const opponent = currentState.turn === 'BLACK' ? 'WHITE' : 'BLACK';
 
-  // Quick suicide check before doing heavy logic
-  if (isSuicide(currentState.stones, move, currentState.turn, currentState.size)) {
-    return null;
+  // Suicide (where the rules allow it) removes the player's own group; the opponent gets the prisoners.
+  // A single-stone suicide would leave the board unchanged, so it's never allowed.
+  const fb = fromBoardState(currentState);
+  const capturedStonesCount = playFast(fb, move.y * currentState.size + move.x);
+  if (capturedStonesCount < 0) return { state: null, reason: 'SUICIDE' };
+
+  const positionKey = positionKeyOf(fb);
+  if (violatesSuperko(currentState, positionKey, opponent)) {
+    return { state: null, reason: 'SUPERKO' };
   }
 
-  // Clone state
-  const nextStones = new Map(currentState.stones);
-  nextStones.set(key, currentState.turn);
-  
-  const neighbors = getNeighbors(move, currentState.size);
-  let capturedStonesCount = 0;
-  
-  // Check opponent captures
-  const groupsChecked = new Set<string>();
-  
-  neighbors.forEach(n => {
-    const nKey = `${n.x},${n.y}`;
-    if (nextStones.get(nKey) === opponent && !groupsChecked.has(nKey)) {
-      const { group, liberties } = getGroup(nextStones, n, opponent, currentState.size);
-      group.forEach(g => groupsChecked.add(g));
-      
-      if (liberties === 0) {
-        group.forEach(gKey => {
-          nextStones.delete(gKey);
-          capturedStonesCount++;
-        });
-      }
+  return {
+    reason: null,
+    state: {
+      ...currentState,
+      stones: toStonesMap(fb),
+      lastMove: move,
+      turn: opponent,
+      captures: { BLACK: fb.captures[1], WHITE: fb.captures[2] },
+      history: [
+        ...currentState.history,
+        { type: 'PLAY', color: currentState.turn, coordinate: move, capturedCount: capturedStonesCount }
+      ],
+      koPoint: fb.koPoint < 0 ? null : { x: fb.koPoint % currentState.size, y: Math.floor(fb.koPoint / currentState.size) },
+      positionHistory: [...currentState.positionHistory, positionEntry(positionKey, opponent)]
     }
-  });
+  };
+};
+
+export const placeStone = (currentState: BoardState, move: Coordinate): BoardState | null => {
+  const result = tryPlaceStone(currentState, move);
+  return result.state;
+};
+
+/**
+ * Passes for the player to move. Stones don't change, but any pending ko is lifted and
+ * (for situational superko) the same position with the other player to move is recorded.
+ * Under rules with pass stones, the opponent receives one prisoner.
+ */
+export const playPass = (currentState: BoardState): BoardState => {
+  const opponent = currentState.turn === 'BLACK' ? 'WHITE' : 'BLACK';
+  const lastEntry = currentState.positionHistory[currentState.positionHistory.length - 1];
+  const positionKey = lastEntry ? lastEntry.slice(0, -1) : getPositionKey(currentState.stones, currentState.size);
+
+  const captures = { ...currentState.captures };
+  if (currentState.rules.passStones) captures[opponent] += 1;
 
   return {
     ...currentState,
-    stones: nextStones,
-    lastMove: move,
     turn: opponent,
-    captures: {
-      ...currentState.captures,
-      [currentState.turn]: currentState.captures[currentState.turn] + capturedStonesCount
-    },
-    history: [
-      ...currentState.history,
-      { color: currentState.turn, coordinate: move, capturedCount: capturedStonesCount }
-    ]
+    lastMove: null,
+    koPoint: null,
+    captures,
+    history: [...currentState.history, { type: 'PASS', color: currentState.turn }],
+    positionHistory: [...currentState.positionHistory, positionEntry(positionKey, opponent)]
   };
 };
 
+// Records a resignation by `color` (the player to move unless given) and ends the game
+export const playResign = (currentState: BoardState, color: StoneColor = currentState.turn): BoardState => ({
+  ...currentState,
+  gameOver: true,
+  history: [...currentState.history, { type: 'RESIGN', color }]
+});
+
+// True only when the most recent move in the record is a pass (not at the start of a game or after setup)
+export const lastMoveWasPass = (state: BoardState): boolean =>
+  state.history.length > 0 && state.history[state.history.length - 1].type === 'PASS';
+
+export const ILLEGAL_MOVE_MESSAGES: Record<IllegalMoveReason, string> = {
+  OCCUPIED: "There's already a stone there.",
+  SUICIDE: "That move isn't allowed (Suicide rule).",
+  KO: "That move isn't allowed (Ko rule). Play somewhere else first, then you can take back.",
+  SUPERKO: "That move isn't allowed (Superko rule). It would repeat an earlier board position.",
+  GAME_OVER: "The game is already over."
+};
+
 /**
  * For Setup Mode: Places or removes a stone directly without game rules (capture/suicide).
  * If color is null, it removes the stone.
- * Resets history if used for non-alternate setup.
+ * The edited position becomes the game's initial position (SGF AB/AW), so moves start from it.
  */
 export const setStone = (currentState: BoardState, move: Coordinate, color: StoneColor | null): BoardState => {
     const nextStones = new Map(currentState.stones);
@@ -166,30 +345,75 @@ export const setStone = (currentState: BoardState, move: Coordinate, color: Ston
     }
 
     return {
-        ...currentState,
-        stones: nextStones,
-        // In static setup, we usually don't change turn or history until play starts
-        history: [], // Reset history because we are redefining the "Start" state
-        lastMove: null
+        ...editPosition(currentState, nextStones, currentState.turn),
+        // A handicap stone that is removed or recoloured stops being a handicap stone
+        handicapStones: color === 'BLACK'
+            ? currentState.handicapStones
+            : currentState.handicapStones.filter(h => h.x !== move.x || h.y !== move.y)
     };
 };
 
+/**
+ * For Setup Mode (free handicap placement): toggles a Black handicap stone.
+ * With two or more handicap stones White moves first. Only before the first move.
+ */
+export const toggleHandicapStone = (currentState: BoardState, move: Coordinate): BoardState => {
+    if (currentState.history.length > 0) return currentState;
+    const isHandicap = currentState.handicapStones.some(h => h.x === move.x && h.y === move.y);
+    if (!isHandicap && currentState.stones.has(`${move.x},${move.y}`)) return currentState;
+
+    const next = setStone(currentState, move, isHandicap ? null : 'BLACK');
+    const handicapStones = isHandicap ? next.handicapStones : [...next.handicapStones, move];
+    const turn: StoneColor = handicapStones.length >= 2 ? 'WHITE' : 'BLACK';
+    return { ...restartFromCurrentPosition(next, next.stones, turn), handicapStones };
+};
+
+/**
+ * Sets the player to move (Setup Mode). Before the first move this is the
+ * initial position's player to move (SGF PL); mid-game it only affects the current turn.
+ */
+export const setPlayerToMove = (currentState: BoardState, color: StoneColor): BoardState => {
+    if (currentState.history.length === 0) {
+        return restartFromCurrentPosition(currentState, currentState.stones, color);
+    }
+    const positionHistory = [...currentState.positionHistory];
+    positionHistory[positionHistory.length - 1] = positionEntry(getPositionKey(currentState.stones, currentState.size), color);
+    return { ...currentState, turn: color, koPoint: null, positionHistory };
+};
+
+// Stones of the initial position that aren't handicap stones (i.e. placed in Setup Mode or imported)
+export const getSetupStones = (state: BoardState): Stone[] => {
+  const stones: Stone[] = [];
+  state.initialPosition.stones.forEach((color, key) => {
+    const [x, y] = key.split(',').map(Number);
+    if (!state.handicapStones.some(h => h.x === x && h.y === y)) stones.push({ x, y, color });
+  });
+  return stones;
+};
+
 export const boardToString = (state: BoardState): string => {
   let boardStr = `Size: ${state.size}x${state.size}\n`;
   boardStr += `Current Turn: ${state.turn}\n`;
   boardStr += `Captures: Black ${state.captures.BLACK}, White ${state.captures.WHITE}\n`;
+  boardStr += `Rules: ${state.rules.name}, Komi ${state.rules.komi}\n`;
+  if (state.handicapStones.length > 0) {
+    const handicapStr = state.handicapStones.map(c => toGtpCoordinate(c, state.size)).join(', ');
+    boardStr += `Handicap: ${state.handicapStones.length} Black stones (${handicapStr})\n`;
+  }
+  const setup = getSetupStones(state);
+  if (setup.length > 0) {
+    const listColor = (color: StoneColor) =>
+      setup.filter(s => s.color === color).map(s => toGtpCoordinate(s, state.size)).join(', ') || 'none';
+    boardStr += `Setup Position (before the first move, ${state.initialPosition.turn} to play): Black ${listColor('BLACK')}; White ${listColor('WHITE')}\n`;
+  }
+  if (state.setupEdits.length > 0) {
+    boardStr += `Stones Edited in Setup Mode after move(s): ${state.setupEdits.map(e => e.moveNumber).join(', ')}\n`;
+  }
   
   // Add list of previous moves in GTP format
-  const movesStr = state.history.map(h => {
-    const color = h.color === 'BLACK' ? 'B' : 'W';
-    const coord = toGtpCoordinate(h.coordinate, state.size);
-    return `${color}@${coord}`;
-  }).join(', ');
-  boardStr += `Previous Moves: ${movesStr}\n`;
-
-  const lastMoveGtp = state.lastMove ? toGtpCoordinate(state.lastMove, state.size) : 'None';
-  const lastMoveColor = state.turn === 'WHITE' ? 'B' : 'W'; // If it's White's turn, Black moved last
-  boardStr += `Last Move: ${state.lastMove ? `${lastMoveColor}@${lastMoveGtp}` : 'None'}\n\n`;
+  const moveStrings = state.history.map(h => `${h.color === 'BLACK' ? 'B' : 'W'}@${toGtpMove(h, state.size)}`);
+  boardStr += `Previous Moves: ${moveStrings.join(', ')}\n`;
+  boardStr += `Last Move: ${moveStrings.length > 0 ? moveStrings[moveStrings.length - 1] : 'None'}\n\n`;
   
   // Use GTP Columns (A, B, C... excluding I)
   boardStr += "   " + Array.from({length: state.size}, (_, i) => COLS[i]).join(" ") + "\n";
@@ -212,21 +436,28 @@ export const boardToString = (state: BoardState): string => {
 export const cloneBoard = (state: BoardState): BoardState => ({
   ...state,
   stones: new Map(state.stones),
+  initialPosition: { ...state.initialPosition, stones: new Map(state.initialPosition.stones) },
+  setupEdits: [...state.setupEdits],
   captures: { ...state.captures },
-  history: [...state.history]
+  history: [...state.history],
+  positionHistory: [...state.positionHistory]
 });
 
 export const getLegalMoves = (state: BoardState): Coordinate[] => {
   const moves: Coordinate[] = [];
-  for (let y = 0; y < state.size; y++) {
-    for (let x = 0; x < state.size; x++) {
-      const coord = { x, y };
-      if (!state.stones.has(`${x},${y}`)) {
-        if (placeStone(state, coord)) {
-          moves.push(coord);
-        }
-      }
+  if (state.gameOver) return moves;
+
+  const fb = fromBoardState(state);
+  const opponent = state.turn === 'BLACK' ? 'WHITE' : 'BLACK';
+  for (let point = 0; point < fb.cells.length; point++) {
+    // Occupied, ko and suicide on the shared board; superko needs the resulting position
+    if (!isLegalFast(fb, point)) continue;
+    if (state.rules.koRule !== 'SIMPLE') {
+      const next = cloneFastBoard(fb);
+      playFast(next, point);
+      if (violatesSuperko(state, positionKeyOf(next), opponent)) continue;
     }
+    moves.push({ x: point % state.size, y: Math.floor(point / state.size) });
   }
   return moves;
 };
@@ -237,98 +468,167 @@ export const getLegalMoves = (state: BoardState): Coordinate[] => {
  */
 export const calculateStoneFaces = (board: BoardState): Map<string, string> => {
   const faces = new Map<string, string>();
-  const visited = new Set<string>();
-  const atariGroups: { group: string[], opponent: StoneColor }[] = [];
+  const fb = fromBoardState(board);
+  const keyOf = (point: number) => `${point % board.size},${Math.floor(point / board.size)}`;
 
   // Pass 1: Identify all groups in atari (1 liberty)
-  board.stones.forEach((color, key) => {
-    if (visited.has(key)) return;
-    const [x, y] = key.split(',').map(Number);
-    const { group, liberties } = getGroup(board.stones, { x, y }, color, board.size);
-    group.forEach(k => visited.add(k));
-
-    if (liberties === 1) {
-      group.forEach(k => faces.set(k, 'SAD')); // In danger
-      atariGroups.push({ group, opponent: color === 'BLACK' ? 'WHITE' : 'BLACK' });
+  const atariPoints: number[] = [];
+  for (let point = 0; point < fb.cells.length; point++) {
+    if (fb.cells[point] !== EMPTY && libertiesAt(fb, point) === 1) {
+      faces.set(keyOf(point), 'SAD'); // In danger
+      atariPoints.push(point);
     }
-  });
+  }
 
   // Pass 2: Identify attackers (stones adjacent to groups in atari)
-  atariGroups.forEach(({ group, opponent }) => {
-    group.forEach(key => {
-      const [x, y] = key.split(',').map(Number);
-      const neighbors = getNeighbors({ x, y }, board.size);
-      neighbors.forEach(n => {
-        const nKey = `${n.x},${n.y}`;
-        if (board.stones.get(nKey) === opponent) {
-          // Priority: If attacker is also in atari itself, keep SAD
-          if (faces.get(nKey) !== 'SAD') {
-            faces.set(nKey, 'ANGRY'); // Aggressor
-          }
-        }
-      });
+  atariPoints.forEach(point => {
+    const opponent = fb.cells[point] === BLACK ? WHITE : BLACK;
+    const x = point % board.size;
+    const y = Math.floor(point / board.size);
+    getNeighbors({ x, y }, board.size).forEach(n => {
+      const nPoint = n.y * board.size + n.x;
+      // Priority: If attacker is also in atari itself, keep SAD
+      if (fb.cells[nPoint] === opponent && libertiesAt(fb, nPoint) !== 1) {
+        faces.set(keyOf(nPoint), 'ANGRY'); // Aggressor
+      }
     });
   });
 
   return faces;
 };
 
-// --- SCORING LOGIC (Chinese / Area Scoring) ---
-export const calculateAreaScore = async (board: BoardState): Promise<ScoreResult> => {
-    const moves = board.history.map(h => {
-        const c = h.color === 'BLACK' ? 'B' : 'W';
-        const coordStr = toGtpCoordinate(h.coordinate, board.size);
-        return `${c} ${coordStr}`;
+// --- SCORING LOGIC (Area / Territory) ---
+
+/**
+ * Flood-fills every empty region (dead stones count as empty) and assigns it to
+ * the colour that borders it exclusively. Regions touching both colours are neutral (dame)
+ * and are left out of the map.
+ */
+export const calculateTerritory = (board: BoardState, deadStones: Iterable<string> = []): Map<string, StoneColor> => {
+    const dead = new Set(deadStones);
+    const territory = new Map<string, StoneColor>();
+    const visited = new Set<string>();
+
+    const isAlive = (key: string) => board.stones.has(key) && !dead.has(key);
+
+    for (let y = 0; y < board.size; y++) {
+        for (let x = 0; x < board.size; x++) {
+            const startKey = `${x},${y}`;
+            if (visited.has(startKey) || isAlive(startKey)) continue;
+
+            const region: string[] = [];
+            const borders = new Set<StoneColor>();
+            const stack: Coordinate[] = [{ x, y }];
+            visited.add(startKey);
+
+            while (stack.length > 0) {
+                const current = stack.pop()!;
+                region.push(`${current.x},${current.y}`);
+
+                for (const n of getNeighbors(current, board.size)) {
+                    const nKey = `${n.x},${n.y}`;
+                    if (isAlive(nKey)) {
+                        borders.add(board.stones.get(nKey)!);
+                    } else if (!visited.has(nKey)) {
+                        visited.add(nKey);
+                        stack.push(n);
+                    }
+                }
+            }
+
+            if (borders.size === 1) {
+                const owner = borders.values().next().value as StoneColor;
+                region.forEach(key => territory.set(key, owner));
+            }
+        }
+    }
+
+    return territory;
+};
+
+const scoreWinner = (blackTotal: number, whiteTotal: number): ScoreResult['winner'] =>
+    blackTotal > whiteTotal ? 'BLACK' : blackTotal < whiteTotal ? 'WHITE' : null;
+
+/**
+ * Area scoring done locally: living stones plus surrounded empty points (and points
+ * freed by removing the agreed dead stones). `deadStones` holds "x,y" keys.
+ * A tie (jigo) has no winner.
+ */
+export const calculateAreaScore = (board: BoardState, deadStones: Iterable<string> = []): ScoreResult => {
+    const dead = new Set(deadStones);
+    let blackStones = 0;
+    let whiteStones = 0;
+
+    board.stones.forEach((color, key) => {
+        if (dead.has(key)) return;
+        if (color === 'BLACK') blackStones++;
+        else whiteStones++;
     });
 
-    const payload = {
-        mode: "finishScore",
-        size: board.size,
-        chineseRules: true,
-        komi: 0,
-        moves: moves
+    let blackTerritory = 0;
+    let whiteTerritory = 0;
+    calculateTerritory(board, dead).forEach(owner => {
+        if (owner === 'BLACK') blackTerritory++;
+        else whiteTerritory++;
+    });
+
+    const komi = board.rules.komi;
+    const blackTotal = blackStones + blackTerritory;
+    const whiteTotal = whiteStones + whiteTerritory + komi;
+    const winner = scoreWinner(blackTotal, whiteTotal);
+
+    return {
+        scoring: 'AREA',
+        blackStones, blackTerritory, blackPrisoners: 0, blackTotal,
+        whiteStones, whiteTerritory, whitePrisoners: 0, komi,
+        whiteTotal, winner, diff: Math.abs(blackTotal - whiteTotal)
     };
+};
 
-    try {
-        const response = await fetch("https://gnugo-bot-5ci3ymbqfa-uw.a.run.app/action", {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload)
-        });
-
-        if (!response.ok) throw new Error("Scoring API request failed");
-
-        const data = await response.json();
-        const resultStr = data.result;
-        
-        if (!resultStr) throw new Error("No result from Scoring API");
-
-        let winner: 'BLACK' | 'WHITE' = 'BLACK';
-        let diff = 0;
-
-        const upper = resultStr.toUpperCase();
-        if (upper.startsWith('W+')) {
-            winner = 'WHITE';
-            diff = parseFloat(upper.split('+')[1]);
-        } else if (upper.startsWith('B+')) {
-            winner = 'BLACK';
-            diff = parseFloat(upper.split('+')[1]);
-        } else {
-            diff = 0;
-            winner = 'BLACK';
-        }
+/**
+ * Territory scoring (Japanese / AGA): surrounded empty points plus prisoners.
+ * Prisoners are the stones captured during play (including pass stones) and the
+ * agreed dead stones, which go to the player who surrounds them.
+ */
+export const calculateTerritoryScore = (board: BoardState, deadStones: Iterable<string> = []): ScoreResult => {
+    const dead = new Set(deadStones);
+    let blackStones = 0;
+    let whiteStones = 0;
+    let deadBlack = 0;
+    let deadWhite = 0;
+
+    board.stones.forEach((color, key) => {
+        if (dead.has(key)) {
+            if (color === 'BLACK') deadBlack++;
+            else deadWhite++;
+        } else if (color === 'BLACK') blackStones++;
+        else whiteStones++;
+    });
 
-        return {
-            blackStones: 0, blackTerritory: 0, blackTotal: 0,
-            whiteStones: 0, whiteTerritory: 0, komi: KOMI,
-            whiteTotal: 0, winner, diff
-        };
-    } catch (e) {
-        console.error("Error fetching score:", e);
-        return {
-            blackStones: 0, blackTerritory: 0, blackTotal: 0,
-            whiteStones: 0, whiteTerritory: 0, komi: KOMI,
-            whiteTotal: 0, winner: 'BLACK', diff: 0
-        };
-    }
+    let blackTerritory = 0;
+    let whiteTerritory = 0;
+    calculateTerritory(board, dead).forEach(owner => {
+        if (owner === 'BLACK') blackTerritory++;
+        else whiteTerritory++;
+    });
+
+    const komi = board.rules.komi;
+    const blackPrisoners = board.captures.BLACK + deadWhite;
+    const whitePrisoners = board.captures.WHITE + deadBlack;
+    const blackTotal = blackTerritory + blackPrisoners;
+    const whiteTotal = whiteTerritory + whitePrisoners + komi;
+    const winner = scoreWinner(blackTotal, whiteTotal);
+
+    return {
+        scoring: 'TERRITORY',
+        blackStones, blackTerritory, blackPrisoners, blackTotal,
+        whiteStones, whiteTerritory, whitePrisoners, komi,
+        whiteTotal, winner, diff: Math.abs(blackTotal - whiteTotal)
+    };
 };
+
+// Scores the board with the counting method of its rule set
+export const calculateScore = (board: BoardState, deadStones: Iterable<string> = []): ScoreResult =>
+    board.rules.scoring === 'TERRITORY'
+        ? calculateTerritoryScore(board, deadStones)
+        : calculateAreaScore(board, deadStones);
@@ -0,0 +1,203 @@
+
+import { BoardState, MoveHistory } from '../types';
+
+/**
+ * Game record as a tree of positions. Every node holds the board after its move, so
+ * navigating is just moving `currentId`. The first child of a node is the main line;
+ * later children are variations. Trees are immutable: every update returns a new tree.
+ */
+
+export interface GameNode {
+  id: string;
+  parentId: string | null;
+  childIds: string[]; // childIds[0] is the main line
+  activeChildId: string | null; // Child that redo follows (the one visited most recently)
+  board: BoardState;
+  move: MoveHistory | null; // Move that led here; null for the root and for setup edits
+}
+
+export interface GameTree {
+  nodes: Map<string, GameNode>;
+  rootId: string;
+  currentId: string;
+  nextId: number;
+}
+
+export interface VariationInfo {
+  id: string;
+  move: MoveHistory | null;
+  isMainLine: boolean; // First child of its parent
+  isCurrent: boolean;
+}
+
+const newNode = (id: string, parentId: string | null, board: BoardState, move: MoveHistory | null): GameNode =>
+  ({ id, parentId, childIds: [], activeChildId: null, board, move });
+
+// The move that turned `parent` into `board`, or null when the board isn't one move further (setup edits)
+const moveBetween = (parent: BoardState, board: BoardState): MoveHistory | null =>
+  board.history.length === parent.history.length + 1 && board.initialPosition === parent.initialPosition
+    ? board.history[board.history.length - 1]
+    : null;
+
+const sameMove = (a: MoveHistory | null, b: MoveHistory | null): boolean => {
+  if (!a || !b || a.type !== b.type || a.color !== b.color) return false;
+  if (a.type === 'PLAY' && b.type === 'PLAY') return a.coordinate.x === b.coordinate.x && a.coordinate.y === b.coordinate.y;
+  return true;
+};
+
+export const createGameTree = (board: BoardState): GameTree => ({
+  nodes: new Map([['n0', newNode('n0', null, board, null)]]),
+  rootId: 'n0',
+  currentId: 'n0',
+  nextId: 1
+});
+
+export const getNode = (tree: GameTree, id: string): GameNode | undefined => tree.nodes.get(id);
+
+export const getCurrentNode = (tree: GameTree): GameNode => tree.nodes.get(tree.currentId)!;
+
+export const getCurrentBoard = (tree: GameTree): BoardState => getCurrentNode(tree).board;
+
+// Node ids from the root down to `id` (inclusive)
+export const getPathTo = (tree: GameTree, id: string): string[] => {
+  const path: string[] = [];
+  for (let node = tree.nodes.get(id); node; node = node.parentId ? tree.nodes.get(node.parentId) : undefined) {
+    path.unshift(node.id);
+  }
+  return path;
+};
+
+// Moves to `id`, marking every node on the way as its parent's active child so redo retraces the path
+export const goToNode = (tree: GameTree, id: string): GameTree => {
+  if (!tree.nodes.has(id)) return tree;
+  const nodes = new Map(tree.nodes);
+  const path = getPathTo(tree, id);
+  for (let i = 0; i < path.length - 1; i++) {
+    const parent = nodes.get(path[i])!;
+    if (parent.activeChildId !== path[i + 1]) nodes.set(parent.id, { ...parent, activeChildId: path[i + 1] });
+  }
+  return { ...tree, nodes, currentId: id };
+};
+
+/**
+ * Adds the position after a move (or setup edit) as a child of `parentId` (default: the current node)
+ * and makes it current. If the same move already exists there, that branch is reused instead.
+ */
+export const addNode = (tree: GameTree, board: BoardState, parentId: string = tree.currentId): GameTree => {
+  const parent = tree.nodes.get(parentId);
+  if (!parent) return tree;
+
+  const move = moveBetween(parent.board, board);
+  const existing = move && parent.childIds.find(id => sameMove(tree.nodes.get(id)!.move, move));
+  if (existing) return goToNode(tree, existing);
+
+  const id = `n${tree.nextId}`;
+  const nodes = new Map(tree.nodes);
+  nodes.set(id, newNode(id, parentId, board, move));
+  nodes.set(parentId, { ...parent, childIds: [...parent.childIds, id] });
+  return goToNode({ ...tree, nodes, nextId: tree.nextId + 1 }, id);
+};
+
+// Replaces the current node's board without adding a move (rule changes, game over, ...)
+export const updateCurrentBoard = (tree: GameTree, board: BoardState): GameTree => {
+  const nodes = new Map(tree.nodes);
+  nodes.set(tree.currentId, { ...getCurrentNode(tree), board });
+  return { ...tree, nodes };
+};
+
+export const canGoBack = (tree: GameTree): boolean => getCurrentNode(tree).parentId !== null;
+
+export const canGoForward = (tree: GameTree): boolean => getCurrentNode(tree).childIds.length > 0;
+
+// Undo: step to the parent position
+export const goToParent = (tree: GameTree): GameTree => {
+  const { parentId } = getCurrentNode(tree);
+  return parentId ? { ...tree, currentId: parentId } : tree;
+};
+
+// Redo: step into the most recently visited child (the main line if none was visited)
+export const goToActiveChild = (tree: GameTree): GameTree => {
+  const node = getCurrentNode(tree);
+  const childId = node.activeChildId ?? node.childIds[0];
+  return childId ? goToNode(tree, childId) : tree;
+};
+
+// Alternatives to the current move: the current node and its siblings, in order
+export const getVariations = (tree: GameTree): VariationInfo[] => {
+  const node = getCurrentNode(tree);
+  const parent = node.parentId ? tree.nodes.get(node.parentId) : undefined;
+  if (!parent) return [];
+  return parent.childIds.map((id, index) => ({
+    id,
+    move: tree.nodes.get(id)!.move,
+    isMainLine: index === 0,
+    isCurrent: id === node.id
+  }));
+};
+
+// Moves that continue from the current position (main line first)
+export const getContinuations = (tree: GameTree): VariationInfo[] => {
+  const node = getCurrentNode(tree);
+  return node.childIds.map((id, index) => ({
+    id,
+    move: tree.nodes.get(id)!.move,
+    isMainLine: index === 0,
+    isCurrent: false
+  }));
+};
+
+// Switches to the previous (-1) or next (+1) sibling variation, wrapping around
+export const goToSiblingVariation = (tree: GameTree, delta: number): GameTree => {
+  const variations = getVariations(tree);
+  if (variations.length < 2) return tree;
+  const index = variations.findIndex(v => v.isCurrent);
+  const next = variations[(index + delta + variations.length) % variations.length];
+  return goToNode(tree, next.id);
+};
+
+export const isOnMainLine = (tree: GameTree, id: string = tree.currentId): boolean => {
+  const path = getPathTo(tree, id);
+  return path.every((nodeId, i) => i === 0 || tree.nodes.get(path[i - 1])!.childIds[0] === nodeId);
+};
+
+/**
+ * Leaves a variation: goes to the main-line position it branched from,
+ * with redo set to continue along the main line.
+ */
+export const goToMainLine = (tree: GameTree): GameTree => {
+  const path = getPathTo(tree, tree.currentId);
+  let branchIndex = 0;
+  while (branchIndex + 1 < path.length && tree.nodes.get(path[branchIndex])!.childIds[0] === path[branchIndex + 1]) {
+    branchIndex++;
+  }
+  const branchPoint = tree.nodes.get(path[branchIndex])!;
+  const nodes = new Map(tree.nodes);
+  nodes.set(branchPoint.id, { ...branchPoint, activeChildId: branchPoint.childIds[0] ?? null });
+  return { ...tree, nodes, currentId: branchPoint.id };
+};
+
+// Forgets which variations were visited (redo follows the main line everywhere) and goes to the end of the main line
+export const resetToMainLine = (tree: GameTree): GameTree => {
+  const nodes = new Map<string, GameNode>();
+  tree.nodes.forEach((node, id) => nodes.set(id, { ...node, activeChildId: node.childIds[0] ?? null }));
+  let currentId = tree.rootId;
+  for (let next = nodes.get(currentId)!.activeChildId; next; next = nodes.get(next)!.activeChildId) currentId = next;
+  return { ...tree, nodes, currentId };
+};
+
+// Child indices from the root down to `id` (0 where it follows the main line), a tree-independent address for a node
+export const getChildIndexPath = (tree: GameTree, id: string): number[] => {
+  const path = getPathTo(tree, id);
+  return path.slice(1).map((nodeId, i) => tree.nodes.get(path[i])!.childIds.indexOf(nodeId));
+};
+
+// Follows child indices from the root as far as the tree allows and moves there
+export const goToChildIndexPath = (tree: GameTree, indices: number[]): GameTree => {
+  let node = tree.nodes.get(tree.rootId)!;
+  for (const index of indices) {
+    const childId = node.childIds[index];
+    if (!childId) break;
+    node = tree.nodes.get(childId)!;
+  }
+  return goToNode(tree, node.id);
+};
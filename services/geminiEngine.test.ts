@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { createBoard, getLegalMoves, placeStone } from './gameLogic';
+import { checkProposal } from './geminiEngine';
+import { RULE_SETS } from './ruleSets';
+
+const reply = (coordinate: string | undefined, reason = 'Because.') => JSON.stringify({ coordinate, reason });
+
+// 9x9, Black on D4 (x 3, y 5), White to play
+const board = placeStone(createBoard(9, RULE_SETS.JAPANESE), { x: 3, y: 5 })!;
+const legalMoves = getLegalMoves(board);
+const check = (text: string) => checkProposal(text, board, legalMoves);
+
+describe('checkProposal', () => {
+  it('accepts a legal move', () => {
+    expect(check(reply('E5'))).toEqual({ move: { type: 'PLAY', coordinate: { x: 4, y: 4 } }, reason: 'Because.' });
+  });
+
+  it('strips Markdown fences around the JSON', () => {
+    expect(check('```json\n' + reply('e5') + '\n```')).toMatchObject({ move: { type: 'PLAY', coordinate: { x: 4, y: 4 } } });
+  });
+
+  it('passes and resigns only when asked to', () => {
+    expect(check(reply('PASS'))).toEqual({ move: { type: 'PASS' }, reason: 'Because.' });
+    expect(check(reply('resign'))).toEqual({ move: { type: 'RESIGN' }, reason: 'Because.' });
+  });
+
+  it('rejects a reply without a coordinate instead of passing', () => {
+    expect(check('{}')).toHaveProperty('error');
+    expect(check(reply(undefined))).toHaveProperty('error');
+    expect(check(reply('  '))).toHaveProperty('error');
+  });
+
+  it('rejects a reply that is not JSON', () => {
+    expect(check('I would play E5.')).toHaveProperty('error');
+  });
+
+  it('rejects points off the board', () => {
+    expect(check(reply('Z99'))).toEqual({ error: '"Z99" is not a point on a 9x9 board.' });
+  });
+
+  it('explains why an illegal move was rejected', () => {
+    expect(check(reply('D4'))).toEqual({ error: 'D4 is illegal: there is already a stone there.' });
+  });
+
+  it('rejects an immediate ko recapture', () => {
+    // Black's stone on C8 captured White's on B8: B8 is the ko point
+    let ko = createBoard(9, RULE_SETS.JAPANESE);
+    const moves = [[1, 0], [2, 0], [0, 1], [3, 1], [1, 2], [2, 2], [5, 5], [1, 1], [2, 1]];
+    moves.forEach(([x, y]) => { ko = placeStone(ko, { x, y })!; });
+    expect(ko.koPoint).toEqual({ x: 1, y: 1 });
+    expect(checkProposal(reply('B8'), ko, getLegalMoves(ko))).toEqual({ error: 'B8 is illegal: it retakes the ko immediately.' });
+  });
+});
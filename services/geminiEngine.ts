@@ -1,8 +1,8 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { BoardState, Coordinate } from "../types";
-import { boardToString, getLegalMoves } from "./gameLogic";
-import { fromGtpCoordinate } from "./gtpUtils";
+import { BoardState, Coordinate, IllegalMoveReason, MoveAction } from "../types";
+import { boardToString, getLegalMoves, tryPlaceStone } from "./gameLogic";
+import { fromGtpCoordinate, toGtpCoordinate } from "./gtpUtils";
 
 // Correct GoogleGenAI initialization using apiKey from process.env.API_KEY
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -26,19 +26,100 @@ OUTPUT:
 
 RULES:
 1. Do NOT provide explanations outside the JSON. ONLY the JSON object.
-2. Ensure the move is legal (not on top of an existing stone).
+2. Ensure the move is legal: not on top of an existing stone, not suicide, not an immediate ko recapture.
+3. If told your move was illegal, pick one from the list of legal moves you are given.
 `;
 
+// The first proposal plus two corrections; after that the engine falls back to the local one
+export const MAX_GEMINI_ATTEMPTS = 3;
+
+// Why a proposal was rejected, phrased for the model
+const REJECTIONS: Record<IllegalMoveReason, string> = {
+  OCCUPIED: "there is already a stone there",
+  SUICIDE: "it would be suicide",
+  KO: "it retakes the ko immediately",
+  SUPERKO: "it would repeat an earlier board position",
+  GAME_OVER: "the game is over"
+};
+
 export interface GeminiMoveResult {
-  move: Coordinate | null;
-  reason: string;
-  cost: number;
-  isPass: boolean;
-  isResign: boolean;
+  move: MoveAction | null; // null: no legal move within MAX_GEMINI_ATTEMPTS, or the API failed
+  reason: string; // Without a move: why, as a sentence for the student
+  cost: number; // Summed over every attempt
 }
 
-export const getGeminiMove = async (board: BoardState, modelName: string = "gemini-3-flash-preview"): Promise<GeminiMoveResult | null> => {
+type Turn = { role: 'user' | 'model'; parts: { text: string }[] };
+
+const isDevelopment = () => !window.location.hostname.includes('run.app');
+
+const estimateCost = (model: string, inputChars: number, outputChars: number): number => {
+  const inputTokens = inputChars / 4;
+  const outputTokens = outputChars / 4;
+  const [inputPrice, outputPrice] = model.includes('pro') ? [1.25, 5.00] : [0.075, 0.30];
+  return (inputTokens / 1000000 * inputPrice) + (outputTokens / 1000000 * outputPrice);
+};
+
+export type Proposal = { move: MoveAction; reason: string } | { error: string };
+
+// Parses and checks one reply against the legal moves (ko and superko included)
+export const checkProposal = (responseText: string, board: BoardState, legalMoves: Coordinate[]): Proposal => {
+  const cleanJson = responseText
+      .replace(/```json/gi, '')
+      .replace(/```/g, '')
+      .trim();
+
+  let parsed;
+  try {
+      parsed = JSON.parse(cleanJson);
+  } catch (e) {
+      return { error: 'Your reply was not a JSON object with "coordinate" and "reason".' };
+  }
+
+  const coordinate = typeof parsed?.coordinate === 'string' ? parsed.coordinate.trim() : '';
+  if (coordinate.toUpperCase() === 'RESIGN') {
+    return { move: { type: 'RESIGN' }, reason: parsed.reason || "I resign." };
+  }
+  if (coordinate.toUpperCase() === 'PASS') {
+    return { move: { type: 'PASS' }, reason: parsed.reason || "Pass" };
+  }
+  // A missing coordinate is a malformed reply, not a pass: passing can end the game
+  if (!coordinate) {
+      return { error: 'Your reply had no "coordinate". Give a move such as "D4", or "PASS" to pass.' };
+  }
+
+  const proposedMove = fromGtpCoordinate(coordinate, board.size);
+  if (!proposedMove) {
+      return { error: `"${coordinate}" is not a point on a ${board.size}x${board.size} board.` };
+  }
+  if (!legalMoves.some(m => m.x === proposedMove.x && m.y === proposedMove.y)) {
+      const illegal = tryPlaceStone(board, proposedMove).reason ?? 'SUPERKO';
+      return { error: `${coordinate} is illegal: ${REJECTIONS[illegal]}.` };
+  }
+
+  return {
+    move: { type: 'PLAY', coordinate: proposedMove },
+    reason: parsed.reason || "Strategic placement."
+  };
+};
+
+const correctionPrompt = (error: string, board: BoardState, legalMoves: Coordinate[]): string => `
+    ${error}
+    Legal moves for ${board.turn}: ${legalMoves.map(m => toGtpCoordinate(m, board.size)).join(' ') || 'none, you must PASS'}
+
+    Choose one of these (or PASS) and return the RAW JSON object with "coordinate" and "reason". No Markdown.
+  `;
+
+/**
+ * Asks Gemini for a move and validates it. An unreadable or illegal proposal is sent back with the
+ * reason and the legal moves, up to MAX_GEMINI_ATTEMPTS times; every attempt counts towards the cost.
+ */
+export const getGeminiMove = async (
+  board: BoardState,
+  modelName: string = "gemini-3-flash-preview",
+  signal?: AbortSignal
+): Promise<GeminiMoveResult> => {
   const activeModel = modelName || "gemini-3-flash-preview";
+  const legalMoves = getLegalMoves(board);
 
   // 1. generate prompt
   const boardAscii = boardToString(board);
@@ -52,114 +133,61 @@ export const getGeminiMove = async (board: BoardState, modelName: string = "gemi
     Return the RAW JSON object with "coordinate" (e.g. C3) and "reason". No Markdown.
   `;
 
-  // Define full payload
-  const requestPayload = {
-    model: activeModel,
-    contents: prompt,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      temperature: 0.1, 
-      responseMimeType: "application/json"
-    }
-  };
-
-  // --- LOGGING REQUEST ---
-  // Only log if not in production (Cloud Run)
-  if (!window.location.hostname.includes('run.app')) {
-    console.log("🤖 [Gemini Engine] FULL API PAYLOAD:", requestPayload);
-  }
-
-  try {
-    // 2. Call Gemini
-    const response = await ai.models.generateContent(requestPayload);
-
-    // Using .text property directly as per guidelines
-    const responseText = response.text || "{}";
-    
-    // --- LOGGING RESPONSE ---
-    if (!window.location.hostname.includes('run.app')) {
-      console.log("🤖 [Gemini Engine] Raw Response:", responseText);
-    }
-    
-    // 3. Calculate Cost
-    const inputTokens = (prompt.length + SYSTEM_INSTRUCTION.length) / 4;
-    const outputTokens = responseText.length / 4;
-    
-    let inputPrice = 0.075;
-    let outputPrice = 0.30;
+  // The whole conversation is resent on each attempt so the model sees its earlier mistakes
+  const contents: Turn[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  let cost = 0;
+
+  for (let attempt = 1; attempt <= MAX_GEMINI_ATTEMPTS; attempt++) {
+    const requestPayload = {
+      model: activeModel,
+      contents,
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        temperature: 0.1, 
+        responseMimeType: "application/json",
+        abortSignal: signal
+      }
+    };
 
-    if (activeModel.includes('pro')) {
-        inputPrice = 1.25;
-        outputPrice = 5.00;
+    // --- LOGGING REQUEST ---
+    // Only log if not in production (Cloud Run)
+    if (isDevelopment()) {
+      console.log(`🤖 [Gemini Engine] FULL API PAYLOAD (attempt ${attempt}):`, requestPayload);
     }
-    
-    const estimatedCost = (inputTokens / 1000000 * inputPrice) + (outputTokens / 1000000 * outputPrice);
 
-    // 4. Parse Response
-    let cleanJson = responseText
-        .replace(/```json/gi, '') 
-        .replace(/```/g, '')
-        .trim();
-
-    let parsed;
+    let responseText: string;
     try {
-        parsed = JSON.parse(cleanJson);
-    } catch (e) {
-        console.error("Gemini Engine JSON Parse Error", e);
-        return null;
+      // 2. Call Gemini
+      const response = await ai.models.generateContent(requestPayload);
+      // Using .text property directly as per guidelines
+      responseText = response.text || "{}";
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Gemini Engine Error:", error);
+      return { move: null, reason: "The Gemini API request failed.", cost };
     }
 
-    if (!window.location.hostname.includes('run.app')) {
-      console.log("🤖 [Gemini Engine] Parsed Move Object:", parsed);
-    }
-    
-    // Check for Resignation
-    if (parsed.coordinate && parsed.coordinate.toUpperCase() === 'RESIGN') {
-      return {
-        move: null,
-        reason: parsed.reason || "I resign.",
-        cost: estimatedCost,
-        isPass: false,
-        isResign: true
-      };
-    }
-
-    // Check for Pass
-    if (!parsed.coordinate || parsed.coordinate.toUpperCase() === 'PASS') {
-      return {
-          move: null,
-          reason: parsed.reason || "Pass",
-          cost: estimatedCost,
-          isPass: true,
-          isResign: false
-      };
+    // --- LOGGING RESPONSE ---
+    if (isDevelopment()) {
+      console.log("🤖 [Gemini Engine] Raw Response:", responseText);
     }
 
-    // 5. Convert & Validation
-    const proposedMove = fromGtpCoordinate(parsed.coordinate, board.size);
-    
-    if (!proposedMove) {
-        console.warn("Gemini suggested invalid coordinate:", parsed.coordinate);
-        return null;
-    }
+    // 3. Calculate Cost
+    const inputChars = SYSTEM_INSTRUCTION.length + contents.reduce((sum, turn) => sum + turn.parts[0].text.length, 0);
+    cost += estimateCost(activeModel, inputChars, responseText.length);
 
-    // Occupied check
-    const key = `${proposedMove.x},${proposedMove.y}`;
-    if (board.stones.has(key)) {
-         console.warn("Gemini tried to play on an existing stone:", proposedMove);
-         return null; 
+    // 4. Parse & Validate
+    const proposal = checkProposal(responseText, board, legalMoves);
+    if ('move' in proposal) {
+      return { ...proposal, cost };
     }
 
-    return {
-      move: proposedMove,
-      reason: parsed.reason || "Strategic placement.",
-      cost: estimatedCost,
-      isPass: false,
-      isResign: false
-    };
-
-  } catch (error) {
-    console.error("Gemini Engine Error:", error);
-    return null;
+    console.warn(`Gemini proposal rejected (attempt ${attempt}/${MAX_GEMINI_ATTEMPTS}):`, proposal.error);
+    contents.push(
+      { role: 'model', parts: [{ text: responseText }] },
+      { role: 'user', parts: [{ text: correctionPrompt(proposal.error, board, legalMoves) }] }
+    );
   }
+
+  return { move: null, reason: `Gemini didn't come up with a legal move in ${MAX_GEMINI_ATTEMPTS} tries.`, cost };
 };
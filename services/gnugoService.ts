@@ -1,89 +1,124 @@
 
 
-import { BoardState, Coordinate, AnalysisMove } from '../types';
-import { toGtpCoordinate, fromGtpCoordinate } from './gtpUtils';
+import { BoardState, MoveAction, AnalysisMove, StoneColor, InitialPosition } from '../types';
+import { toGtpCoordinate, toGtpMove, fromGtpMove, fromGtpCoordinate } from './gtpUtils';
+import { getReplayStart } from './gameLogic';
+import { postJson, isHttpError, HTTP_STATUS_ERROR, ABORT_ERROR } from './httpClient';
 
-const API_URL = "https://gnugo-bot-5ci3ymbqfa-uw.a.run.app/action";
+// The hosted GNU Go service; GNUGO_URL in .env (e.g. the mock in scripts/gnugo-mock-server.js) overrides it
+export const CLOUD_GNUGO_URL = "https://gnugo-bot-5ci3ymbqfa-uw.a.run.app";
+export const DEFAULT_GNUGO_URL = process.env.GNUGO_URL || CLOUD_GNUGO_URL;
 
-export interface GnuGoResult {
-  move: Coordinate | null;
-  isPass: boolean;
-  isResign: boolean;
+const MOVE_TIMEOUT_MS = 20000;
+const HINT_TIMEOUT_MS = 8000; // Hints are optional, so give up sooner and don't retry much
+
+let endpoint = DEFAULT_GNUGO_URL;
+
+// Server base URL; requests go to its /action path
+export const getGnuGoEndpoint = (): string => endpoint;
+
+export const setGnuGoEndpoint = (url: string) => {
+  endpoint = url.trim().replace(/\/+$/, '').replace(/\/action$/, '') || DEFAULT_GNUGO_URL;
+};
+
+const actionUrl = () => `${endpoint}/action`;
+
+interface ActionResponse {
+  result?: string;
 }
 
-export const fetchGnuGoMove = async (board: BoardState, level: number): Promise<GnuGoResult> => {
-  // Construct moves list in GTP format (e.g. "B C3", "W D4")
-  const moves = board.history.map(h => {
-    const c = h.color === 'BLACK' ? 'B' : 'W';
-    const coordStr = toGtpCoordinate(h.coordinate, board.size);
-    return `${c} ${coordStr}`;
+// GNU Go's default build only plays on boards up to 19x19
+export const GNUGO_MAX_BOARD_SIZE = 19;
+
+export const isGnuGoBoardSize = (size: number): boolean => size <= GNUGO_MAX_BOARD_SIZE;
+
+// Thrown (as error.name) when GNU Go can't play on the board size; callers fall back to the local engine
+export const UNSUPPORTED_BOARD_SIZE = 'UnsupportedBoardSize';
+
+const unsupportedSizeError = (size: number): Error => {
+  const error = new Error(`GNU Go doesn't support ${size}x${size} boards`);
+  error.name = UNSUPPORTED_BOARD_SIZE;
+  return error;
+};
+
+const setupMoves = (position: InitialPosition, size: number, color: StoneColor): string[] => {
+  const moves: string[] = [];
+  position.stones.forEach((c, key) => {
+    if (c !== color) return;
+    const [x, y] = key.split(',').map(Number);
+    moves.push(`${color === 'BLACK' ? 'B' : 'W'} ${toGtpCoordinate({ x, y }, size)}`);
   });
+  return moves;
+};
+
+/**
+ * Moves list in GTP format (e.g. "B C3", "W D4") as replayed by the engine.
+ * The initial position (handicap and setup stones) comes first as setup moves, Black's then White's,
+ * so the engine sees it on the board. Replaying a legal position this way never captures anything.
+ * Requests therefore don't send a `handicap` count, which would have the server place the stones again.
+ * After a mid-game Setup Mode edit, the edited position is sent the same way, followed by the moves since.
+ */
+export const toGtpMoveList = (board: BoardState): string[] => {
+  const start = getReplayStart(board);
+  return [
+    ...setupMoves(start.position, board.size, 'BLACK'),
+    ...setupMoves(start.position, board.size, 'WHITE'),
+    ...board.history
+      .slice(start.moveNumber)
+      .filter(h => h.type !== 'RESIGN')
+      .map(h => `${h.color === 'BLACK' ? 'B' : 'W'} ${toGtpMove(h, board.size)}`)
+  ];
+};
+
+export const fetchGnuGoMove = async (board: BoardState, level: number, signal?: AbortSignal): Promise<MoveAction> => {
+  if (!isGnuGoBoardSize(board.size)) throw unsupportedSizeError(board.size);
+
+  const moves = toGtpMoveList(board);
 
   const payload = {
     mode: "move",
     color: board.turn === 'BLACK' ? 'B' : 'W',
     size: board.size,
     level: level,
+    komi: board.rules.komi,
+    chineseRules: board.rules.scoring === 'AREA',
     moves: moves
   };
 
-  try {
-    if (!window.location.hostname.includes('run.app')) {
-      console.log("⚪️ [GNUGo] Requesty Body", payload);
-    }
-
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-      mode: 'cors'
-    });
-
-    if (!response.ok) {
-      throw new Error(`GNU Go API Error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    if (!window.location.hostname.includes('run.app')) {
-      console.log("⚪️ [GNUGo] Move Response", payload.color, data);
-    }
-    const resultString = data.result; 
-
-    if (!resultString) {
-        throw new Error("No result from GNU Go API");
-    }
-
-    const upperRes = resultString.toUpperCase();
+  if (!window.location.hostname.includes('run.app')) {
+    console.log("⚪️ [GNUGo] Requesty Body", payload);
+  }
 
-    if (upperRes === 'PASS') {
-        return { move: null, isPass: true, isResign: false };
-    }
+  let data: ActionResponse;
+  try {
+    data = await postJson<ActionResponse>(actionUrl(), payload, { signal, timeoutMs: MOVE_TIMEOUT_MS });
+  } catch (e) {
+    // A 400 means GNU Go rejected the game setup (typically the `boardsize` command)
+    if (isHttpError(e) && e.name === HTTP_STATUS_ERROR && e.status === 400) throw unsupportedSizeError(board.size);
+    throw e;
+  }
 
-    if (upperRes.includes('RESIGN')) {
-        return { move: null, isPass: false, isResign: true };
-    }
+  if (!window.location.hostname.includes('run.app')) {
+    console.log("⚪️ [GNUGo] Move Response", payload.color, data);
+  }
+  const resultString = data.result;
 
-    const coord = fromGtpCoordinate(resultString, board.size);
-    if (!coord) {
-         throw new Error(`Invalid coordinate received from GNU Go: ${resultString}`);
-    }
+  if (!resultString) {
+      throw new Error("No result from GNU Go API");
+  }
 
-    return { move: coord, isPass: false, isResign: false };
-  } catch (error) {
-    console.error("GnuGo Service Error:", error);
-    throw error;
+  const move = fromGtpMove(resultString, board.size);
+  if (!move) {
+       throw new Error(`Invalid coordinate received from GNU Go: ${resultString}`);
   }
+
+  return move;
 };
 
-export const fetchGnuGoHints = async (board: BoardState): Promise<AnalysisMove[]> => {
-  const moves = board.history.map(h => {
-    const c = h.color === 'BLACK' ? 'B' : 'W';
-    const coordStr = toGtpCoordinate(h.coordinate, board.size);
-    return `${c} ${coordStr}`;
-  });
+export const fetchGnuGoHints = async (board: BoardState, signal?: AbortSignal): Promise<AnalysisMove[]> => {
+  if (!isGnuGoBoardSize(board.size)) return [];
+
+  const moves = toGtpMoveList(board);
 
   // Hints are for the CURRENT turn player
   const color = board.turn === 'BLACK' ? 'B' : 'W';
@@ -92,6 +127,8 @@ export const fetchGnuGoHints = async (board: BoardState): Promise<AnalysisMove[]
     mode: "hint",
     color: color,
     size: board.size,
+    komi: board.rules.komi,
+    chineseRules: board.rules.scoring === 'AREA',
     moves: moves
   };
   if (!window.location.hostname.includes('run.app')) {
@@ -99,20 +136,7 @@ export const fetchGnuGoHints = async (board: BoardState): Promise<AnalysisMove[]
   }
 
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-      mode: 'cors'
-    });
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
+    const data = await postJson<ActionResponse>(actionUrl(), payload, { signal, timeoutMs: HINT_TIMEOUT_MS, retries: 1 });
     if (!window.location.hostname.includes('run.app')) {
       console.log("⚪️ [GNUGo] Hint Response", payload.color, data);
     }
@@ -141,7 +165,7 @@ export const fetchGnuGoHints = async (board: BoardState): Promise<AnalysisMove[]
     return results;
 
   } catch (error) {
-    console.error("GnuGo Hint Error:", error);
+    if (!(error instanceof Error) || error.name !== ABORT_ERROR) console.error("GnuGo Hint Error:", error);
     return [];
   }
 };
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createGtpClient, GtpConnection, GTP_ERROR } from './gtpClient';
+
+// Stands in for the bridge: keeps what the client sent and lets a test feed responses back
+const fakeConnection = () => {
+  const sent: string[] = [];
+  let onData: (text: string) => void = () => {};
+  let onClose: (error: Error) => void = () => {};
+  const connection: GtpConnection = {
+    send: text => { sent.push(text); },
+    close: () => onClose(new Error('closed')),
+    onData: handler => { onData = handler; },
+    onClose: handler => { onClose = handler; }
+  };
+  return { connection, sent, receive: (text: string) => onData(text), drop: (error: Error) => onClose(error) };
+};
+
+describe('createGtpClient', () => {
+  it('numbers commands and matches responses by id, in any order', async () => {
+    const { connection, sent, receive } = fakeConnection();
+    const client = createGtpClient(connection);
+    const name = client.name();
+    const version = client.version();
+    expect(sent).toEqual(['1 name\n', '2 version\n']);
+
+    receive('=2 3.8\n\n=1 GNU Go\n\n');
+    expect(await name).toBe('GNU Go');
+    expect(await version).toBe('3.8');
+  });
+
+  it('gives a response without an id to the oldest pending command', async () => {
+    const { connection, receive } = fakeConnection();
+    const client = createGtpClient(connection);
+    const first = client.command('name');
+    const second = client.command('version');
+
+    receive('= first\n\n');
+    expect(await first).toBe('first');
+    receive('= second\n\n');
+    expect(await second).toBe('second');
+  });
+
+  it('rejects on a "?" response with the engine\'s message', async () => {
+    const { connection, receive } = fakeConnection();
+    const client = createGtpClient(connection);
+    const play = client.play('BLACK', 'D4');
+    receive('?1 illegal move\n\n');
+    await expect(play).rejects.toMatchObject({ name: GTP_ERROR, message: 'illegal move' });
+  });
+
+  it('waits for the rest of a response split across chunks', async () => {
+    const { connection, receive } = fakeConnection();
+    const client = createGtpClient(connection);
+    const dead = client.finalStatusList('dead');
+    receive('=1 D4 E5\r\n');
+    receive('C3\r\n\r\n');
+    expect(await dead).toEqual(['D4', 'E5', 'C3']);
+  });
+
+  it('rejects pending and later commands once the connection closes', async () => {
+    const { connection, drop } = fakeConnection();
+    const client = createGtpClient(connection);
+    const genmove = client.genmove('WHITE');
+    const error = new Error('The GTP bridge closed the connection');
+    drop(error);
+    await expect(genmove).rejects.toBe(error);
+    expect(client.isClosed()).toBe(true);
+    await expect(client.name()).rejects.toBe(error);
+  });
+});
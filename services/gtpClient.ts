@@ -0,0 +1,150 @@
+
+import { BoardState, StoneColor } from '../types';
+import { toGtpMoveList } from './gnugoService';
+
+/**
+ * Go Text Protocol client for engines running on this machine or the local network
+ * (GNU Go, KataGo, Pachi, ...), reached through the WebSocket bridge in scripts/gtp-bridge.js.
+ * Commands get increasing ids and their responses are matched by id, so several can be in flight.
+ */
+
+// error.name of an engine's "?" response; the message is the engine's error text
+export const GTP_ERROR = 'GtpError';
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+// The byte stream to and from the engine
+export interface GtpConnection {
+  send: (text: string) => void;
+  close: () => void;
+  onData: (handler: (text: string) => void) => void;
+  onClose: (handler: (error: Error) => void) => void;
+}
+
+export interface GtpClient {
+  command: (line: string) => Promise<string>; // e.g. "play B D4"; resolves with the response text
+  isClosed: () => boolean;
+  close: () => void;
+  name: () => Promise<string>;
+  version: () => Promise<string>;
+  listCommands: () => Promise<string[]>;
+  boardsize: (size: number) => Promise<void>;
+  clearBoard: () => Promise<void>;
+  komi: (komi: number) => Promise<void>;
+  play: (color: StoneColor, vertex: string) => Promise<void>;
+  genmove: (color: StoneColor, options?: { cleanup?: boolean }) => Promise<string>; // cleanup: kgs-genmove_cleanup
+  finalScore: () => Promise<string>; // e.g. "W+3.5"
+  finalStatusList: (status: 'dead' | 'alive' | 'seki') => Promise<string[]>;
+}
+
+const gtpError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = GTP_ERROR;
+  return error;
+};
+
+const gtpColor = (color: StoneColor) => color === 'BLACK' ? 'B' : 'W';
+
+interface Pending {
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+}
+
+export const createGtpClient = (connection: GtpConnection): GtpClient => {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+  let buffer = '';
+  let closedWith: Error | null = null;
+
+  // A response is "=id result" or "?id message", ended by an empty line
+  connection.onData(text => {
+    buffer += text.replace(/\r/g, '');
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const match = block.match(/^\s*([=?])(\d*)\s?([\s\S]*)$/);
+      if (!match) continue;
+      // Engines that drop ids answer in order, so an id-less response belongs to the oldest command
+      const id = match[2] ? parseInt(match[2], 10) : pending.keys().next().value;
+      const request = id !== undefined ? pending.get(id) : undefined;
+      if (!request) continue;
+      pending.delete(id!);
+      if (match[1] === '=') request.resolve(match[3].trim());
+      else request.reject(gtpError(match[3].trim() || 'Engine error'));
+    }
+  });
+
+  connection.onClose(error => {
+    closedWith = error;
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  });
+
+  const command = (line: string): Promise<string> => {
+    if (closedWith) return Promise.reject(closedWith);
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      connection.send(`${id} ${line.replace(/[\r\n]+/g, ' ').trim()}\n`);
+    });
+  };
+
+  const done = async (line: string) => { await command(line); };
+
+  return {
+    command,
+    isClosed: () => closedWith !== null,
+    close: () => connection.close(),
+    name: () => command('name'),
+    version: () => command('version'),
+    listCommands: async () => (await command('list_commands')).split('\n').map(c => c.trim()).filter(Boolean),
+    boardsize: size => done(`boardsize ${size}`),
+    clearBoard: () => done('clear_board'),
+    komi: komi => done(`komi ${komi}`),
+    play: (color, vertex) => done(`play ${gtpColor(color)} ${vertex}`),
+    genmove: (color, options = {}) => command(`${options.cleanup ? 'kgs-genmove_cleanup' : 'genmove'} ${gtpColor(color)}`),
+    finalScore: () => command('final_score'),
+    finalStatusList: async status => (await command(`final_status_list ${status}`)).split(/\s+/).filter(Boolean)
+  };
+};
+
+// Opens the bridge's WebSocket; rejects if it can't connect within a few seconds
+export const connectGtpWebSocket = (url: string): Promise<GtpClient> =>
+  new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const closeHandlers: ((error: Error) => void)[] = [];
+    let opened = false;
+
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error(`No GTP bridge answered at ${url}`));
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      opened = true;
+      clearTimeout(timer);
+      resolve(createGtpClient({
+        send: text => socket.send(text),
+        close: () => socket.close(),
+        onData: handler => socket.addEventListener('message', event => handler(String(event.data))),
+        onClose: handler => closeHandlers.push(handler)
+      }));
+    };
+    socket.onclose = () => {
+      clearTimeout(timer);
+      if (!opened) reject(new Error(`Couldn't connect to the GTP bridge at ${url}`));
+      closeHandlers.forEach(handler => handler(new Error('The GTP bridge closed the connection')));
+    };
+  });
+
+/**
+ * Commands that set an engine's board to `board`: size, komi, then the initial position and
+ * the moves as plays. Comparing two lists tells how much of a previous setup is still valid.
+ */
+export const gtpPositionCommands = (board: BoardState): string[] => [
+  `boardsize ${board.size}`,
+  'clear_board',
+  `komi ${board.rules.komi}`,
+  ...toGtpMoveList(board).map(move => `play ${move}`)
+];
@@ -1,45 +1,66 @@
 
-import { Coordinate } from '../types';
+import { Coordinate, MoveAction } from '../types';
 
 export const COLS = "ABCDEFGHJKLMNOPQRSTUVWXYZ"; // Skips 'I'
 export const SGF_COLS = "abcdefghijklmnopqrstuvwxyz";
 
 // Convert Board Coordinate (0,0 is Top-Left) to GTP (A19 is Top-Left for 19x19)
 export const toGtpCoordinate = (c: Coordinate, size: number): string => {
-  if (c.x < 0 || c.y < 0) return "PASS";
-  
   const col = COLS[c.x];
   const row = size - c.y; // SVG/Board y=0 is top, GTP y=1 is bottom
   return `${col}${row}`;
 };
 
+// GTP vertex for any move: "D4", "pass" or "resign"
+export const toGtpMove = (move: MoveAction, size: number): string => {
+  if (move.type === 'PASS') return 'pass';
+  if (move.type === 'RESIGN') return 'resign';
+  return toGtpCoordinate(move.coordinate, size);
+};
+
+// Parses an engine reply ("D4", "PASS", "resign") into a move; null if it isn't one
+export const fromGtpMove = (gtp: string, size: number): MoveAction | null => {
+  const vertex = (gtp || '').trim().toLowerCase();
+  if (vertex === 'pass') return { type: 'PASS' };
+  if (vertex === 'resign') return { type: 'RESIGN' };
+  const coordinate = fromGtpCoordinate(vertex, size);
+  return coordinate ? { type: 'PLAY', coordinate } : null;
+};
+
 // Convert GTP (D4) to Board Coordinate
 export const fromGtpCoordinate = (gtp: string, size: number): Coordinate | null => {
-  if (!gtp || gtp.toLowerCase() === 'pass') return null;
+  if (!gtp) return null;
+  const trimmed = gtp.trim();
+  if (trimmed.toLowerCase() === 'pass') return null;
   
-  const colChar = gtp.charAt(0).toUpperCase();
-  const rowNum = parseInt(gtp.substring(1), 10);
+  const colChar = trimmed.charAt(0).toUpperCase();
+  const rowNum = parseInt(trimmed.substring(1), 10);
   
   const x = COLS.indexOf(colChar);
   const y = size - rowNum;
   
-  if (x === -1 || isNaN(y)) return null;
+  // Off-board points (e.g. "T5" on a 9x9) are rejected
+  if (x === -1 || x >= size || isNaN(y) || y < 0 || y >= size) return null;
   
   return { x, y };
 };
 
 // Convert Board Coordinate to SGF (e.g. 0,0 -> "aa")
 export const toSgfCoordinate = (c: Coordinate): string => {
-    if (c.x < 0 || c.y < 0) return ""; // Pass is empty in SGF usually or handled separately
     return SGF_COLS[c.x] + SGF_COLS[c.y];
 };
 
-// Convert SGF to Board Coordinate
-export const fromSgfCoordinate = (sgf: string): Coordinate | null => {
+// Old SGF (FF[3]) files write a pass as "tt" on boards up to 19x19
+export const isSgfPass = (sgf: string, size: number): boolean =>
+    !sgf || (sgf === 'tt' && size <= 19);
+
+// Convert SGF to Board Coordinate. With a size, points off the board are rejected.
+export const fromSgfCoordinate = (sgf: string, size?: number): Coordinate | null => {
     if (!sgf || sgf.length < 2) return null; // Pass or invalid
     const x = SGF_COLS.indexOf(sgf[0]);
     const y = SGF_COLS.indexOf(sgf[1]);
     if (x === -1 || y === -1) return null;
+    if (size !== undefined && (x >= size || y >= size)) return null;
     return { x, y };
 };
 
@@ -0,0 +1,118 @@
+
+/**
+ * JSON-over-HTTP requests for the engine services, with a per-attempt timeout, cancellation and
+ * exponential backoff. Failures are Errors whose `name` says what went wrong.
+ */
+
+export const HTTP_TIMEOUT = 'HttpTimeout'; // No answer within timeoutMs
+export const HTTP_STATUS_ERROR = 'HttpStatusError'; // Answered with a non-2xx status (see `status`)
+export const NETWORK_ERROR = 'NetworkError'; // Unreachable: offline, DNS, CORS, refused
+export const INVALID_RESPONSE = 'InvalidResponse'; // 2xx but not JSON
+export const ABORT_ERROR = 'AbortError'; // Cancelled through the caller's signal
+
+export interface HttpError extends Error {
+  status?: number;
+  url: string;
+}
+
+// For catch clauses: errors thrown by postJson carry the url they were for
+export const isHttpError = (e: unknown): e is HttpError =>
+  e instanceof Error && typeof (e as Partial<HttpError>).url === 'string';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after the first
+  backoffMs?: number; // Wait before the first retry; doubles each time
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 500;
+
+const httpError = (name: string, message: string, url: string, status?: number): HttpError => {
+  const error = new Error(message) as HttpError;
+  error.name = name;
+  error.url = url;
+  if (status !== undefined) error.status = status;
+  return error;
+};
+
+// Server trouble and rate limits may pass; a 4xx means the request itself is wrong
+const isRetryable = (error: HttpError): boolean =>
+  error.name === HTTP_TIMEOUT ||
+  error.name === NETWORK_ERROR ||
+  (error.name === HTTP_STATUS_ERROR && (error.status! >= 500 || error.status === 429));
+
+// Resolves early if `signal` aborts; the caller checks it afterwards
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+
+const attempt = async <T>(url: string, body: unknown, signal: AbortSignal | undefined, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        mode: 'cors',
+        signal: controller.signal
+      });
+    } catch (e) {
+      if (signal?.aborted) throw httpError(ABORT_ERROR, 'Aborted', url);
+      if (timedOut) throw httpError(HTTP_TIMEOUT, `No answer from ${url} within ${timeoutMs / 1000}s`, url);
+      throw httpError(NETWORK_ERROR, `Couldn't reach ${url}: ${e instanceof Error ? e.message : String(e)}`, url);
+    }
+    if (!response.ok) {
+      throw httpError(HTTP_STATUS_ERROR, `${url} answered ${response.status} ${response.statusText}`.trim(), url, response.status);
+    }
+    try {
+      return await response.json();
+    } catch {
+      if (signal?.aborted) throw httpError(ABORT_ERROR, 'Aborted', url);
+      if (timedOut) throw httpError(HTTP_TIMEOUT, `No answer from ${url} within ${timeoutMs / 1000}s`, url);
+      throw httpError(INVALID_RESPONSE, `${url} didn't answer with JSON`, url, response.status);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const postJson = async <T>(url: string, body: unknown, options: RequestOptions = {}): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    backoffMs = DEFAULT_BACKOFF_MS
+  } = options;
+
+  for (let tries = 0; ; tries++) {
+    if (signal?.aborted) throw httpError(ABORT_ERROR, 'Aborted', url);
+    try {
+      return await attempt<T>(url, body, signal, timeoutMs);
+    } catch (e) {
+      if (tries >= retries || !isHttpError(e) || !isRetryable(e)) throw e;
+      // Jitter keeps a classroom of clients from retrying in lockstep
+      await wait(backoffMs * 2 ** tries * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+};
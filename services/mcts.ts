@@ -0,0 +1,498 @@
+
+import {
+  FastBoard, PointColor, EMPTY, BLACK, WHITE, cloneFastBoard, playFast, passFast, isLegalFast, isOwnEyeFast,
+  opponentOf, neighborTable, libertiesAt, chainLiberties, chainStones
+} from './fastBoard';
+
+/**
+ * UCT tree search with RAVE (all-moves-as-first statistics) over random FastBoard playouts, for
+ * the offline engine. A search is a stepper: callers run `step` in slices until their budget is
+ * spent, so the same code runs in the Web Worker (mctsWorker.ts) and, without workers, on the
+ * main thread between yields.
+ */
+
+export const PASS_POINT = -1;
+
+// random: any legal move, own eyes included (the original playouts, kept as a benchmark baseline).
+// uniform: random moves that don't fill own eyes. patterns: answers ataris and plays 3x3 shapes first
+export type PlayoutPolicy = 'random' | 'uniform' | 'patterns';
+
+export interface SearchOptions {
+  komi: number;
+  policy?: PlayoutPolicy; // Default 'patterns'
+  candidates?: number[]; // Root moves allowed (checked against superko by the caller); default: all legal
+  opponentPassed?: boolean; // Passing back would end the game
+}
+
+export interface SearchBudget {
+  timeMs: number;
+  maxPlayouts: number;
+}
+
+export interface SearchCandidate {
+  point: number;
+  visits: number;
+  winRate: number; // For the player to move
+}
+
+export interface SearchResult {
+  move: number; // Point index, or PASS_POINT
+  playouts: number;
+  winRate: number; // Of the chosen move, for the player to move
+  candidates: SearchCandidate[]; // Most visited first
+  ownership: Float32Array; // Per point, -1 (White) to 1 (Black), averaged over the playouts' final positions
+}
+
+export interface SearchProgress {
+  playouts: number;
+  elapsedMs: number;
+  fraction: number; // Of the budget spent, 0 to 1
+  winRate: number; // Of the current best move
+}
+
+// Worker protocol
+export interface SearchRequest {
+  board: FastBoard;
+  options: SearchOptions;
+  budget: SearchBudget;
+}
+
+export type SearchMessage =
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'done'; result: SearchResult };
+
+export interface Search {
+  step: (playouts: number) => void;
+  playouts: () => number;
+  result: () => SearchResult;
+}
+
+const RAVE_EQUIVALENCE = 1000; // Visits at which a move's own results and its AMAF results weigh the same
+const EXPLORATION = 0.25;
+const FIRST_PLAY_URGENCY = 1.1; // Value of a move with no statistics at all, so each gets tried
+
+interface Node {
+  move: number;
+  color: PointColor; // Who played `move`
+  visits: number;
+  wins: number; // For `color`, ties counting half
+  raveVisits: number;
+  raveWins: number;
+  children: Node[] | null; // null until expanded
+}
+
+const createNode = (move: number, color: PointColor): Node => ({
+  move, color, visits: 0, wins: 0, raveVisits: 0, raveWins: 0, children: null
+});
+
+const shuffle = <T>(items: T[]): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// --- Playout policy ---
+
+const PATTERN_PROBABILITY = 0.9; // Playouts still need some randomness to sample varied games
+const SELF_ATARI_REJECTION = 0.9;
+
+/**
+ * 3x3 shapes (the MoGo set) that make a good reply next to the last move; the centre is the move.
+ * X and O stand for either colour, x is "not X", o is "not O", ? anything, and a space the edge.
+ */
+const PATTERN_SOURCES = [
+  ['XOX', '...', '???'], // Hane enclosing
+  ['XO.', '...', '?.?'], // Hane, non-cutting
+  ['XO?', 'X..', 'x.?'], // Hane, magari
+  ['.O.', 'X..', '...'], // Katatsuke or diagonal attachment
+  ['XO?', 'O.o', '?o?'], // Unprotected cut
+  ['XO?', 'O.X', '???'], // Peeped cut
+  ['?X?', 'O.O', 'ooo'], // Cut
+  ['OX?', 'o.O', '???'], // Keima cut
+  ['X.?', 'O.?', '   '], // Edge: chase
+  ['OX?', 'X.O', '   '], // Edge: block side cut
+  ['?X?', 'x.O', '   '], // Edge: block side connection
+  ['?XO', 'x.x', '   '], // Edge: sagari
+  ['?OX', 'X.O', '   ']  // Edge: cut
+];
+
+const PATTERN_CODES: Record<string, number> = { '.': EMPTY, X: BLACK, O: WHITE, ' ': 3 };
+const WILDCARDS: Record<string, string> = { '?': '.XO ', x: '.O ', o: '.X ' };
+const SWAPPED: Record<string, string> = { X: 'O', O: 'X', x: 'o', o: 'x' };
+
+const expandWildcards = (cells: string): string[] => {
+  const i = cells.search(/[?xo]/);
+  if (i === -1) return [cells];
+  return [...WILDCARDS[cells[i]]].flatMap(c => expandWildcards(cells.slice(0, i) + c + cells.slice(i + 1)));
+};
+
+const rotate = (rows: string[]): string[] => [0, 1, 2].map(r => [0, 1, 2].map(c => rows[2 - c][r]).join(''));
+const mirror = (rows: string[]): string[] => rows.map(row => [...row].reverse().join(''));
+const swapColors = (rows: string[]): string[] => rows.map(row => row.replace(/[XOxo]/g, c => SWAPPED[c]));
+
+// Every 3x3 neighbourhood matching a pattern in any orientation, keyed as in `patternKey`
+let patternTable: Uint8Array | null = null;
+
+const getPatternTable = (): Uint8Array => {
+  if (patternTable) return patternTable;
+  patternTable = new Uint8Array(1 << 16);
+  for (const source of PATTERN_SOURCES) {
+    for (const colored of [source, swapColors(source)]) {
+      for (let variant = colored, turn = 0; turn < 4; turn++, variant = rotate(variant)) {
+        for (const rows of [variant, mirror(variant)]) {
+          const cells = rows.join('');
+          for (const ring of expandWildcards(cells.slice(0, 4) + cells.slice(5))) {
+            let key = 0;
+            for (let i = 0; i < 8; i++) key |= PATTERN_CODES[ring[i]] << (2 * i);
+            patternTable[key] = 1;
+          }
+        }
+      }
+    }
+  }
+  return patternTable;
+};
+
+// The 8 points around p, row by row, two bits each (3 past the edge)
+const patternKey = (fb: FastBoard, p: number): number => {
+  const { size, cells } = fb;
+  const x = p % size;
+  const y = (p - x) / size;
+  let key = 0;
+  let shift = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const nx = x + dx;
+      const ny = y + dy;
+      const code = nx < 0 || ny < 0 || nx >= size || ny >= size ? 3 : cells[ny * size + nx];
+      key |= code << shift;
+      shift += 2;
+    }
+  }
+  return key;
+};
+
+// An eye the opponent can't take away: own stones all round and at most one diagonal (none on the edge) lost
+const isTrueEye = (fb: FastBoard, p: number, color: PointColor): boolean => {
+  if (!isOwnEyeFast(fb, p, color)) return false;
+  const { size, cells } = fb;
+  const opponent = opponentOf(color);
+  const x = p % size;
+  const y = (p - x) / size;
+  let falseCorners = 0;
+  let atEdge = false;
+  for (const [dx, dy] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx < 0 || ny < 0 || nx >= size || ny >= size) atEdge = true;
+    else if (cells[ny * size + nx] === opponent) falseCorners++;
+  }
+  return falseCorners + (atEdge ? 1 : 0) < 2;
+};
+
+// Playing p would leave the new chain with one liberty (and capture nothing)
+const isSelfAtari = (fb: FastBoard, p: number, color: PointColor): boolean => {
+  const neighbors = neighborTable(fb.size);
+  const opponent = opponentOf(color);
+  let empties = 0;
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[p * 4 + d];
+    if (n < 0) continue;
+    if (fb.cells[n] === EMPTY) empties++;
+    else if (fb.cells[n] === opponent && libertiesAt(fb, n) === 1) return false;
+  }
+  if (empties >= 2) return false;
+
+  const liberties = new Set<number>();
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[p * 4 + d];
+    if (n < 0) continue;
+    if (fb.cells[n] === EMPTY) liberties.add(n);
+    else if (fb.cells[n] === color) {
+      for (const liberty of chainLiberties(fb, n)) {
+        if (liberty !== p) liberties.add(liberty);
+        if (liberties.size >= 2) return false;
+      }
+    }
+  }
+  return liberties.size < 2;
+};
+
+// Saves the chain at `point` (in atari) by capturing a neighbour in atari or by extending
+const escapeAtari = (fb: FastBoard, point: number): number => {
+  const neighbors = neighborTable(fb.size);
+  const opponent = opponentOf(fb.turn);
+  for (const stone of chainStones(fb, point)) {
+    for (let d = 0; d < 4; d++) {
+      const n = neighbors[stone * 4 + d];
+      if (n >= 0 && fb.cells[n] === opponent && libertiesAt(fb, n) === 1) {
+        const capture = chainLiberties(fb, n)[0];
+        if (isLegalFast(fb, capture)) return capture;
+      }
+    }
+  }
+  const extension = chainLiberties(fb, point)[0];
+  return isLegalFast(fb, extension) && !isSelfAtari(fb, extension, fb.turn) ? extension : -1;
+};
+
+// A reply to the last move: capture it if it's in atari, save our chains it put in atari, else a shape
+const heuristicMove = (fb: FastBoard, last: number): number => {
+  const neighbors = neighborTable(fb.size);
+  const color = fb.turn;
+
+  if (fb.cells[last] !== EMPTY && libertiesAt(fb, last) === 1) {
+    const capture = chainLiberties(fb, last)[0];
+    if (isLegalFast(fb, capture)) return capture;
+  }
+  for (let d = 0; d < 4; d++) {
+    const n = neighbors[last * 4 + d];
+    if (n >= 0 && fb.cells[n] === color && libertiesAt(fb, n) === 1) {
+      const escape = escapeAtari(fb, n);
+      if (escape >= 0) return escape;
+    }
+  }
+
+  if (Math.random() >= PATTERN_PROBABILITY) return -1;
+  const table = getPatternTable();
+  const { size } = fb;
+  const x = last % size;
+  const y = (last - x) / size;
+  const matches: number[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+      const p = ny * size + nx;
+      if (fb.cells[p] === EMPTY && table[patternKey(fb, p)] && isLegalFast(fb, p) && !isSelfAtari(fb, p, color)) {
+        matches.push(p);
+      }
+    }
+  }
+  return matches.length > 0 ? matches[Math.floor(Math.random() * matches.length)] : -1;
+};
+
+// Filling these is never worth searching or (except in 'random' playouts) playing out
+const isEyeFor = (policy: PlayoutPolicy, fb: FastBoard, p: number, color: PointColor): boolean =>
+  policy === 'patterns' ? isTrueEye(fb, p, color) : isOwnEyeFast(fb, p, color);
+
+// Moves worth searching: legal and not filling one of our own eyes
+const searchMoves = (fb: FastBoard, policy: PlayoutPolicy, candidates?: number[]): number[] => {
+  const moves: number[] = [];
+  const points = candidates ?? Array.from({ length: fb.cells.length }, (_, p) => p);
+  for (const p of points) {
+    if (isLegalFast(fb, p) && !isEyeFor(policy, fb, p, fb.turn)) moves.push(p);
+  }
+  return moves;
+};
+
+/**
+ * Plays out the game until both sides pass or the move cap is hit. Mutates and returns `fb`.
+ * Each move is appended to `played` as a (point, colour) pair; the last pair already there is the
+ * move the policy replies to. Playouts only respect simple ko; the move cap stops any long cycle.
+ */
+export const runPlayout = (fb: FastBoard, played?: number[], policy: PlayoutPolicy = 'patterns'): FastBoard => {
+  const points = fb.cells.length;
+  const maxMoves = points * 1.5;
+
+  const empty = new Int16Array(points);
+  let last = played && played.length > 0 ? played[played.length - 2] : -1;
+  let passes = 0;
+  let moves = 0;
+
+  while (passes < 2 && moves < maxMoves) {
+    const color = fb.turn;
+    let point = policy === 'patterns' && last >= 0 ? heuristicMove(fb, last) : -1;
+    if (point >= 0 && playFast(fb, point) < 0) point = -1;
+
+    if (point < 0) {
+      let emptyCount = 0;
+      for (let p = 0; p < points; p++) {
+        if (fb.cells[p] === EMPTY) empty[emptyCount++] = p;
+      }
+
+      // Pick random empty points, dropping the ones that are illegal or (unless 'random') fill our own eye
+      while (emptyCount > 0) {
+        const i = Math.floor(Math.random() * emptyCount);
+        const candidate = empty[i];
+        empty[i] = empty[--emptyCount];
+        if (policy !== 'random' && isEyeFor(policy, fb, candidate, color)) continue;
+        if (policy === 'patterns' && Math.random() < SELF_ATARI_REJECTION && isSelfAtari(fb, candidate, color)) continue;
+        if (playFast(fb, candidate) >= 0) {
+          point = candidate;
+          break;
+        }
+      }
+    }
+
+    if (point >= 0) {
+      played?.push(point, color);
+      passes = 0;
+    } else {
+      passes++;
+      passFast(fb);
+    }
+    last = point;
+    moves++;
+  }
+
+  return fb;
+};
+
+// Area owner of each point of a finished playout: stones, and empty points surrounded by one colour
+const finalOwners = (fb: FastBoard, owners: Uint8Array) => {
+  const { size, cells } = fb;
+  for (let p = 0; p < cells.length; p++) {
+    if (cells[p] !== EMPTY) {
+      owners[p] = cells[p];
+      continue;
+    }
+    const x = p % size;
+    let owner = 0;
+    let mixed = false;
+    const look = (n: number) => {
+      const c = cells[n];
+      if (c === EMPTY || (owner && c !== owner)) mixed = true;
+      else owner = c;
+    };
+    if (x > 0) look(p - 1);
+    if (x < size - 1) look(p + 1);
+    if (p >= size) look(p - size);
+    if (p < cells.length - size) look(p + size);
+    owners[p] = mixed ? EMPTY : owner;
+  }
+};
+
+export const createSearch = (root: FastBoard, options: SearchOptions): Search => {
+  const points = root.cells.length;
+  const policy = options.policy ?? 'patterns';
+  const rootNode = createNode(PASS_POINT, opponentOf(root.turn));
+  rootNode.children = shuffle(searchMoves(root, policy, options.candidates)).map(p => createNode(p, root.turn));
+
+  const owners = new Uint8Array(points);
+  const ownershipSum = new Float64Array(points);
+  const firstColor = new Uint8Array(points);
+  const played: number[] = [];
+  let playouts = 0;
+
+  const select = (node: Node): Node => {
+    const logVisits = Math.log(node.visits + 1);
+    let best = node.children![0];
+    let bestValue = -Infinity;
+    for (const child of node.children!) {
+      let value: number;
+      if (child.visits === 0 && child.raveVisits === 0) {
+        value = FIRST_PLAY_URGENCY;
+      } else {
+        const winRate = child.visits > 0 ? child.wins / child.visits : 0;
+        const amaf = child.raveVisits > 0 ? child.raveWins / child.raveVisits : winRate;
+        const beta = Math.sqrt(RAVE_EQUIVALENCE / (3 * child.visits + RAVE_EQUIVALENCE));
+        value = (1 - beta) * winRate + beta * amaf + EXPLORATION * Math.sqrt(logVisits / (child.visits + 1));
+      }
+      if (value > bestValue) {
+        bestValue = value;
+        best = child;
+      }
+    }
+    return best;
+  };
+
+  const playoutOnce = () => {
+    const fb = cloneFastBoard(root);
+    const path: Node[] = [rootNode];
+    played.length = 0;
+
+    // Descend through the tree, expanding the leaf once it has been visited
+    let node = rootNode;
+    while (true) {
+      if (!node.children && node.visits > 0) {
+        node.children = shuffle(searchMoves(fb, policy)).map(p => createNode(p, fb.turn));
+      }
+      if (!node.children || node.children.length === 0) break;
+      node = select(node);
+      played.push(node.move, fb.turn);
+      playFast(fb, node.move);
+      path.push(node);
+    }
+
+    runPlayout(fb, played, policy);
+    finalOwners(fb, owners);
+    let score = -options.komi;
+    for (let p = 0; p < points; p++) {
+      if (owners[p] === BLACK) {
+        score++;
+        ownershipSum[p]++;
+      } else if (owners[p] === WHITE) {
+        score--;
+        ownershipSum[p]--;
+      }
+    }
+    // A tie (possible with integer komi) is half a win for each side
+    const blackReward = score > 0 ? 1 : score < 0 ? 0 : 0.5;
+    const reward = (color: PointColor) => color === BLACK ? blackReward : 1 - blackReward;
+
+    // Walk back up: the moves played after node i (tree and playout) update its children's AMAF stats
+    firstColor.fill(0);
+    let j = played.length / 2 - 1;
+    for (let i = path.length - 1; i >= 0; i--) {
+      for (; j >= i; j--) firstColor[played[2 * j]] = played[2 * j + 1];
+      const current = path[i];
+      current.visits++;
+      current.wins += reward(current.color);
+      if (!current.children) continue;
+      const toMove = opponentOf(current.color);
+      for (const child of current.children) {
+        if (firstColor[child.move] !== toMove) continue;
+        child.raveVisits++;
+        child.raveWins += reward(toMove);
+      }
+    }
+    playouts++;
+  };
+
+  const result = (): SearchResult => {
+    const candidates = rootNode.children!
+      .filter(child => child.visits > 0)
+      .map(child => ({ point: child.move, visits: child.visits, winRate: child.wins / child.visits }))
+      .sort((a, b) => b.visits - a.visits);
+    const ownership = new Float32Array(points);
+    if (playouts > 0) ownershipSum.forEach((sum, p) => { ownership[p] = sum / playouts; });
+
+    // After the opponent passes, pass back if counting the expected final position wins
+    let expected = -options.komi;
+    ownership.forEach(value => { expected += value; });
+    const winsByPassing = options.opponentPassed && (root.turn === BLACK ? expected > 0 : expected < 0);
+
+    const best = candidates[0];
+    if (!best || winsByPassing) {
+      return { move: PASS_POINT, playouts, winRate: best?.winRate ?? 0, candidates, ownership };
+    }
+    return { move: best.point, playouts, winRate: best.winRate, candidates, ownership };
+  };
+
+  return {
+    // With no moves to search, playouts still estimate ownership for the pass decision
+    step: count => {
+      for (let i = 0; i < count; i++) playoutOnce();
+    },
+    playouts: () => playouts,
+    result
+  };
+};
+
+export const searchProgress = (search: Search, budget: SearchBudget, elapsedMs: number): SearchProgress => {
+  const playouts = search.playouts();
+  const best = search.result().candidates[0];
+  return {
+    playouts,
+    elapsedMs,
+    fraction: Math.min(1, Math.max(elapsedMs / budget.timeMs, playouts / budget.maxPlayouts)),
+    winRate: best ? best.winRate : 0
+  };
+};
+
+export const isBudgetSpent = (search: Search, budget: SearchBudget, elapsedMs: number): boolean =>
+  elapsedMs >= budget.timeMs || search.playouts() >= budget.maxPlayouts;
@@ -0,0 +1,29 @@
+
+import { createSearch, searchProgress, isBudgetSpent, SearchRequest, SearchMessage } from './mcts';
+
+/**
+ * Web Worker entry for the offline engine: runs one search per request, posting progress a few
+ * times a second and the result at the end. The page cancels a search by terminating the worker.
+ */
+
+const PROGRESS_INTERVAL_MS = 150;
+const STEP_PLAYOUTS = 32;
+
+const post = (message: SearchMessage) => (self as unknown as { postMessage: (message: SearchMessage) => void }).postMessage(message);
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const { board, options, budget } = event.data;
+  const search = createSearch(board, options);
+  const start = performance.now();
+  let lastReport = start;
+
+  while (!isBudgetSpent(search, budget, performance.now() - start)) {
+    search.step(STEP_PLAYOUTS);
+    const now = performance.now();
+    if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+      lastReport = now;
+      post({ type: 'progress', progress: searchProgress(search, budget, now - start) });
+    }
+  }
+  post({ type: 'done', result: search.result() });
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { importGib, importNgf, importUgf, detectRecordFormat, importGameRecord } from './recordImport';
+import { parseSgf } from './sgfService';
+
+const GIB = [
+  '\\HS',
+  '\\[GAMEBLACKNAME=Kim (3D)\\]',
+  '\\[GAMEWHITENAME=Lee (5D)\\]',
+  '\\[GAMEINFOMAIN=GBKIND:3,GTIME:600,GRLT:3,ZIPSU:0\\]',
+  '\\[GAMEGONGJE=65\\]',
+  '\\[GAMEDATE=2014- 5-31\\]',
+  '\\HE',
+  '\\GS',
+  'INI 0 1 0 &4',
+  'STO 0 2 1 15 3',
+  'STO 0 3 2 3 15',
+  'SKI 0 4',
+  '\\GE'
+].join('\r\n');
+
+const NGF = [
+  'Friendly',
+  '9',
+  'Lee 5D*',
+  'Kim 3D',
+  'WBaduk',
+  '0',
+  '0',
+  '6',
+  '20041012 [10:22]',
+  '5',
+  'White wins by resign!',
+  '2',
+  'PM01BFFFF',
+  'PM02WDDDD'
+].join('\n');
+
+const UGF = [
+  '[Header]',
+  'Title=Pandanet game',
+  'PlayerB=Kim,3d',
+  'PlayerW=Lee,5d',
+  'Size=9',
+  'Hdcp=2,0.5',
+  'Winner=W,C',
+  'Date=2003/12/25,10:00',
+  'Rule=JPN',
+  '[Data]',
+  'CG,B0,0,0',
+  'GC,B0,0,0',
+  'EE,W1,0,0'
+].join('\n');
+
+describe('importGib', () => {
+  it('converts the header, stones and passes', () => {
+    const { nodes } = importGib(GIB);
+    expect(nodes[0]).toMatchObject({
+      SZ: ['19'], KM: ['6.5'], PB: ['Kim'], BR: ['3D'], PW: ['Lee'], WR: ['5D'], RE: ['B+R'], DT: ['2014-05-31']
+    });
+    expect(nodes.slice(1)).toEqual([{ B: ['pd'] }, { W: ['dp'] }, { B: [''] }]);
+  });
+});
+
+describe('importNgf', () => {
+  it('converts the header lines and moves', () => {
+    const { nodes } = importNgf(NGF);
+    expect(nodes[0]).toMatchObject({
+      SZ: ['9'], KM: ['6.5'], PB: ['Kim'], BR: ['3D'], PW: ['Lee'], WR: ['5D'], RE: ['W+R'], DT: ['2004-10-12'], GN: ['Friendly']
+    });
+    expect(nodes.slice(1)).toEqual([{ B: ['ee'] }, { W: ['cc'] }]);
+  });
+});
+
+describe('importUgf', () => {
+  it('converts the header, setup stones and moves', () => {
+    const { nodes } = importUgf(UGF);
+    expect(nodes[0]).toMatchObject({
+      SZ: ['9'], KM: ['0.5'], RU: ['Japanese'], PB: ['Kim'], BR: ['3d'], PW: ['Lee'], WR: ['5d'], RE: ['W+R'],
+      DT: ['2003-12-25'], HA: ['2'], AB: ['cc', 'gg']
+    });
+    expect(nodes.slice(1)).toEqual([{ W: ['ee'] }]);
+  });
+});
+
+describe('importGameRecord', () => {
+  it('detects each format from its content', () => {
+    expect(detectRecordFormat(GIB)).toBe('GIB');
+    expect(detectRecordFormat(NGF)).toBe('NGF');
+    expect(detectRecordFormat(UGF)).toBe('UGF');
+    expect(detectRecordFormat('(;FF[4]SZ[9])')).toBe('SGF');
+    expect(detectRecordFormat('hello', 'notes.txt')).toBeNull();
+  });
+
+  it('produces SGF that loads as a handicap game', () => {
+    const imported = importGameRecord(UGF, 'game.ugf')!;
+    expect(imported.format).toBe('UGF');
+    const parsed = parseSgf(imported.sgf);
+    expect(parsed.isValid).toBe(true);
+    expect(parsed.handicapStones).toEqual([{ x: 2, y: 2 }, { x: 6, y: 6 }]);
+    expect(parsed.moves).toEqual([{ type: 'PLAY', color: 'WHITE', coordinate: { x: 4, y: 4 } }]);
+  });
+});
@@ -0,0 +1,308 @@
+
+import { Coordinate } from '../types';
+import { SgfNode, SgfGameTree, writeSgf } from './sgfParser';
+import { toSgfCoordinate } from './gtpUtils';
+import { getFixedHandicapPoints } from './gameLogic';
+
+/**
+ * Importers for game records from Korean, Chinese and Japanese servers: Tygem (.gib),
+ * WBaduk/Cyberoro (.ngf) and Pandanet (.ugf). Each is converted to an SGF property tree,
+ * so imported games go through exactly the same loading path (and library) as SGF files.
+ */
+
+export type RecordFormat = 'SGF' | 'GIB' | 'NGF' | 'UGF';
+
+// Game info collected by the importers, written to the SGF root node
+interface RecordInfo {
+  size: number;
+  komi?: number;
+  handicap?: number;
+  blackName?: string;
+  blackRank?: string;
+  whiteName?: string;
+  whiteRank?: string;
+  result?: string; // SGF RE[] value
+  date?: string; // YYYY-MM-DD
+  title?: string;
+  place?: string;
+  rules?: string;
+}
+
+type RecordMove = { color: 'B' | 'W'; point: Coordinate | null }; // null: pass
+
+const buildGame = (info: RecordInfo, moves: RecordMove[], setup: { color: 'B' | 'W'; point: Coordinate }[] = []): SgfGameTree => {
+  const root: SgfNode = { GM: ['1'], FF: ['4'], CA: ['UTF-8'], SZ: [String(info.size)] };
+  if (info.komi !== undefined && !isNaN(info.komi)) root.KM = [String(info.komi)];
+  if (info.rules) root.RU = [info.rules];
+  if (info.blackName) root.PB = [info.blackName];
+  if (info.blackRank) root.BR = [info.blackRank];
+  if (info.whiteName) root.PW = [info.whiteName];
+  if (info.whiteRank) root.WR = [info.whiteRank];
+  if (info.result) root.RE = [info.result];
+  if (info.date) root.DT = [info.date];
+  if (info.title) root.GN = [info.title];
+  if (info.place) root.PC = [info.place];
+
+  // Handicap stones go on the standard points unless the record lists them itself
+  const blackSetup = setup.filter(s => s.color === 'B').map(s => s.point);
+  const whiteSetup = setup.filter(s => s.color === 'W').map(s => s.point);
+  const handicap = info.handicap ?? 0;
+  if (handicap >= 2) {
+    root.HA = [String(handicap)];
+    if (blackSetup.length === 0) blackSetup.push(...getFixedHandicapPoints(info.size, handicap));
+  }
+  if (blackSetup.length > 0) root.AB = blackSetup.map(toSgfCoordinate);
+  if (whiteSetup.length > 0) root.AW = whiteSetup.map(toSgfCoordinate);
+
+  const nodes = moves.map(move => ({ [move.color]: [move.point ? toSgfCoordinate(move.point) : ''] }));
+  return { nodes: [root, ...nodes], variations: [] };
+};
+
+const onBoard = (x: number, y: number, size: number): Coordinate | null =>
+  x >= 0 && x < size && y >= 0 && y < size ? { x, y } : null;
+
+// "2014- 5-31", "20041012 [10:22]", "2003/12/25,..." -> "2014-05-31"
+const parseDate = (text: string | undefined): string | undefined => {
+  const match = text?.match(/(\d{4})\D*?(\d{1,2})\D*?(\d{1,2})/);
+  if (!match) return undefined;
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+};
+
+// "Kim 3D*" or "Kim (3D)" -> name and rank
+const parsePlayer = (text: string | undefined): { name?: string; rank?: string } => {
+  const trimmed = text?.trim();
+  if (!trimmed) return {};
+  const match = trimmed.match(/^(.*?)\s*[( ]\s*(\d+\s*[kdpKDP]|\d+[급단])\*?\)?$/);
+  return match ? { name: match[1].trim(), rank: match[2].replace(/\s/g, '') } : { name: trimmed };
+};
+
+// Free-text results ("White wins by resign!", "흑 3.5집 승") -> SGF RE[]
+const parseResultText = (text: string | undefined): string | undefined => {
+  if (!text) return undefined;
+  const winner = /black|흑|黑|黒/i.test(text) ? 'B' : /white|백|白/i.test(text) ? 'W' : null;
+  if (!winner) return undefined;
+  if (/resign|불계|中押/i.test(text)) return `${winner}+R`;
+  if (/time|시간/i.test(text)) return `${winner}+T`;
+  const points = text.match(/(\d+(?:\.\d+)?)/);
+  return points ? `${winner}+${points[1]}` : `${winner}+`;
+};
+
+/**
+ * Tygem .gib: a header of \[KEY=VALUE\] entries, then one line per stone,
+ * "STO 0 <move> <color 1|2> <x> <y>" counted from the top-left. "INI 0 1 <handicap>" sets the handicap.
+ */
+export const importGib = (text: string): SgfGameTree => {
+  const header = new Map<string, string>();
+  for (const match of text.matchAll(/\\\[(\w+)=(.*?)\\\]/g)) header.set(match[1], match[2].trim());
+
+  // GAMEINFOMAIN packs more fields as "KEY:VALUE,KEY:VALUE"
+  const main = new Map<string, string>();
+  (header.get('GAMEINFOMAIN') || '').split(',').forEach(field => {
+    const [key, value] = field.split(':');
+    if (key && value !== undefined) main.set(key.trim(), value.trim());
+  });
+
+  // GRLT: 0/1 Black/White by points (ZIPSU is the margin in tenths), 3/4 by resignation, 7/8 on time
+  const winnerByCode: Record<string, [string, string]> = { '0': ['B', 'score'], '1': ['W', 'score'], '3': ['B', 'R'], '4': ['W', 'R'], '7': ['B', 'T'], '8': ['W', 'T'] };
+  const outcome = winnerByCode[main.get('GRLT') ?? ''];
+  let result: string | undefined;
+  if (outcome) {
+    const margin = parseInt(main.get('ZIPSU') ?? '', 10);
+    result = outcome[1] !== 'score' ? `${outcome[0]}+${outcome[1]}` : isNaN(margin) ? `${outcome[0]}+` : `${outcome[0]}+${margin / 10}`;
+  } else {
+    result = parseResultText(header.get('GAMERESULT'));
+  }
+
+  const gongje = parseInt(header.get('GAMEGONGJE') ?? main.get('GONGJE') ?? '', 10);
+  const black = parsePlayer(header.get('GAMEBLACKNAME') || header.get('GAMEBLACKNICK'));
+  const white = parsePlayer(header.get('GAMEWHITENAME') || header.get('GAMEWHITENICK'));
+
+  let handicap = 0;
+  const moves: RecordMove[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const parts = line.trim().split(/\s+/);
+    if (parts[0] === 'INI') handicap = parseInt(parts[3], 10) || 0;
+    if (parts[0] === 'STO') {
+      const [color, x, y] = parts.slice(3, 6).map(Number);
+      moves.push({ color: color === 2 ? 'W' : 'B', point: onBoard(x, y, 19) });
+    }
+    // SKI is a pass; the record doesn't say whose, so it's the other colour's turn
+    if (parts[0] === 'SKI') {
+      const last = moves[moves.length - 1];
+      moves.push({ color: last ? (last.color === 'B' ? 'W' : 'B') : handicap >= 2 ? 'W' : 'B', point: null });
+    }
+  });
+
+  return buildGame({
+    size: 19,
+    komi: isNaN(gongje) ? undefined : gongje / 10,
+    handicap,
+    blackName: black.name,
+    blackRank: black.rank,
+    whiteName: white.name,
+    whiteRank: white.rank,
+    result,
+    date: parseDate(header.get('GAMEDATE')),
+    title: header.get('GAMENAME'),
+    place: header.get('GAMEPLACE')
+  }, moves);
+};
+
+/**
+ * WBaduk/Cyberoro .ngf: fixed header lines (title, size, White, Black, site, handicap, -, komi,
+ * date, -, result, move count), then "PM<nn><B|W><x><y><x><y>" per move with coordinates
+ * from 'B' (first line) at the top-left; anything else is a pass.
+ */
+export const importNgf = (text: string): SgfGameTree => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const size = parseInt(lines[1], 10) || 19;
+  const white = parsePlayer(lines[2]);
+  const black = parsePlayer(lines[3]);
+
+  // WBaduk writes the integer part of the usual half-point komi
+  const komi = parseFloat(lines[7]);
+  const moves: RecordMove[] = lines
+    .filter(line => /^PM..[BW]/.test(line))
+    .map(line => {
+      const x = line.charCodeAt(5) - 'B'.charCodeAt(0);
+      const y = line.charCodeAt(6) - 'B'.charCodeAt(0);
+      return { color: line[4] as 'B' | 'W', point: onBoard(x, y, size) };
+    });
+
+  return buildGame({
+    size,
+    komi: isNaN(komi) ? undefined : Number.isInteger(komi) && komi > 0 ? komi + 0.5 : komi,
+    handicap: parseInt(lines[5], 10) || 0,
+    blackName: black.name,
+    blackRank: black.rank,
+    whiteName: white.name,
+    whiteRank: white.rank,
+    result: parseResultText(lines[10]),
+    date: parseDate(lines[8]),
+    title: lines[0] || undefined,
+    place: lines[4] || undefined
+  }, moves);
+};
+
+/**
+ * Pandanet .ugf: INI-style [Header] and [Data] sections. Data lines are "<x><y>,<B|W><move>,..."
+ * with letters from 'A', x from the left and y from the bottom; move 0 is a setup stone.
+ */
+export const importUgf = (text: string): SgfGameTree => {
+  const header = new Map<string, string>();
+  const data: string[] = [];
+  let section = '';
+  text.split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    const heading = line.match(/^\[(\w+)\]$/);
+    if (heading) {
+      section = heading[1].toLowerCase();
+    } else if (section === 'header' && line.includes('=')) {
+      const index = line.indexOf('=');
+      header.set(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    } else if (section === 'data' && line) {
+      data.push(line);
+    }
+  });
+
+  const size = parseInt(header.get('Size') ?? '', 10) || 19;
+  const [handicapText, komiText] = (header.get('Hdcp') || '').split(',');
+  const [blackName, blackRank] = (header.get('PlayerB') || '').split(',').map(s => s.trim());
+  const [whiteName, whiteRank] = (header.get('PlayerW') || '').split(',').map(s => s.trim());
+
+  // Winner=<B|W>,<margin>; a non-numeric or negative margin means resignation ("C") or time ("T")
+  let result: string | undefined;
+  const [winner, margin] = (header.get('Winner') || '').split(',').map(s => s.trim().toUpperCase());
+  if (winner === 'B' || winner === 'W') {
+    const points = parseFloat(margin);
+    result = margin === 'T' ? `${winner}+T` : !isNaN(points) && points >= 0 ? `${winner}+${points}` : `${winner}+R`;
+  }
+
+  const rule = header.get('Rule')?.toUpperCase();
+  const moves: RecordMove[] = [];
+  const setup: { color: 'B' | 'W'; point: Coordinate }[] = [];
+  data.forEach(line => {
+    const [coordinate = '', colorAndNumber = ''] = line.split(',').map(s => s.trim().toUpperCase());
+    const color = colorAndNumber[0];
+    if (color !== 'B' && color !== 'W') return;
+    const x = coordinate.charCodeAt(0) - 'A'.charCodeAt(0);
+    const y = size - 1 - (coordinate.charCodeAt(1) - 'A'.charCodeAt(0));
+    const point = onBoard(x, y, size);
+    if (parseInt(colorAndNumber.slice(1), 10) === 0) {
+      if (point) setup.push({ color, point });
+    } else {
+      moves.push({ color, point });
+    }
+  });
+
+  return buildGame({
+    size,
+    komi: parseFloat(komiText),
+    handicap: parseInt(handicapText, 10) || 0,
+    blackName: blackName || undefined,
+    blackRank: blackRank || undefined,
+    whiteName: whiteName || undefined,
+    whiteRank: whiteRank || undefined,
+    result,
+    date: parseDate(header.get('Date')),
+    title: header.get('Title') || undefined,
+    place: header.get('Place') || undefined,
+    rules: rule === 'JPN' ? 'Japanese' : rule === 'CHN' ? 'Chinese' : undefined
+  }, moves, setup);
+};
+
+/**
+ * Guesses the format from the content, falling back to the file extension.
+ * Returns null when the text doesn't look like any supported record.
+ */
+export const detectRecordFormat = (text: string, filename: string = ''): RecordFormat | null => {
+  if (/\(\s*;/.test(text)) return 'SGF';
+  if (/\\HS|\\GS|^\s*STO\s+\d/m.test(text)) return 'GIB';
+  if (/^\s*\[Header\]/im.test(text) && /^\s*\[Data\]/im.test(text)) return 'UGF';
+  const lines = text.split(/\r?\n/);
+  if (/^\s*\d+\s*$/.test(lines[1] ?? '') && lines.some(line => /^PM..[BW]/.test(line.trim()))) return 'NGF';
+
+  const extension = filename.split('.').pop()?.toUpperCase();
+  return extension === 'SGF' || extension === 'GIB' || extension === 'NGF' || extension === 'UGF' ? extension : null;
+};
+
+// Legacy encodings the formats were usually written in, for files that aren't UTF-8
+const LEGACY_ENCODINGS: Record<RecordFormat, string> = { SGF: 'iso-8859-1', GIB: 'euc-kr', NGF: 'euc-kr', UGF: 'shift_jis' };
+
+/**
+ * Decodes a record file. UTF-8 is tried first; otherwise SGF's CA[] is honoured, or the
+ * encoding the format's servers use (EUC-KR for Tygem/WBaduk, Shift_JIS for Pandanet).
+ */
+export const decodeRecordFile = (bytes: ArrayBuffer, filename: string = ''): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    const latin = new TextDecoder('iso-8859-1').decode(bytes);
+    const format = detectRecordFormat(latin, filename) ?? 'SGF';
+    const declared = format === 'SGF' ? latin.match(/CA\s*\[([^\]]+)\]/)?.[1].trim() : undefined;
+    for (const encoding of [declared, LEGACY_ENCODINGS[format]]) {
+      if (!encoding) continue;
+      try {
+        return new TextDecoder(encoding).decode(bytes);
+      } catch {
+        // Unknown label; try the next one
+      }
+    }
+    return latin;
+  }
+};
+
+/**
+ * Converts a game record in any supported format to SGF text. SGF is passed through untouched.
+ * Returns null when the format isn't recognised.
+ */
+export const importGameRecord = (text: string, filename: string = ''): { format: RecordFormat; sgf: string } | null => {
+  const format = detectRecordFormat(text, filename);
+  switch (format) {
+    case 'SGF': return { format, sgf: text };
+    case 'GIB': return { format, sgf: writeSgf([importGib(text)]) };
+    case 'NGF': return { format, sgf: writeSgf([importNgf(text)]) };
+    case 'UGF': return { format, sgf: writeSgf([importUgf(text)]) };
+    default: return null;
+  }
+};
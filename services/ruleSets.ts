@@ -0,0 +1,73 @@
+
+import { RuleSet, RuleSetId } from '../types';
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  CHINESE: {
+    id: 'CHINESE',
+    name: 'Chinese',
+    sgfName: 'Chinese',
+    scoring: 'AREA',
+    komi: 7.5,
+    koRule: 'POSITIONAL_SUPERKO',
+    allowSuicide: false,
+    passStones: false
+  },
+  JAPANESE: {
+    id: 'JAPANESE',
+    name: 'Japanese',
+    sgfName: 'Japanese',
+    scoring: 'TERRITORY',
+    komi: 6.5,
+    koRule: 'SIMPLE',
+    allowSuicide: false,
+    passStones: false
+  },
+  AGA: {
+    id: 'AGA',
+    name: 'AGA',
+    sgfName: 'AGA',
+    scoring: 'TERRITORY', // Pass stones make territory counting match area counting
+    komi: 7.5,
+    koRule: 'SITUATIONAL_SUPERKO',
+    allowSuicide: false,
+    passStones: true
+  },
+  NEW_ZEALAND: {
+    id: 'NEW_ZEALAND',
+    name: 'New Zealand',
+    sgfName: 'NZ',
+    scoring: 'AREA',
+    komi: 7,
+    koRule: 'SITUATIONAL_SUPERKO',
+    allowSuicide: true,
+    passStones: false
+  }
+};
+
+// Kids' games default to Chinese counting without komi
+export const DEFAULT_RULE_SET: RuleSet = { ...RULE_SETS.CHINESE, komi: 0 };
+
+export const KOMI_OPTIONS = [0, 0.5, 5.5, 6.5, 7, 7.5];
+
+export const HANDICAP_OPTIONS = [0, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Komi for a handicap game: White gets 0.5 so there are no ties.
+ * Under area counting White also receives one point per handicap stone,
+ * since Black's extra stones would otherwise count twice.
+ */
+export const withHandicapKomi = (rules: RuleSet, handicap: number): RuleSet => {
+  if (handicap < 2) return rules;
+  const komi = rules.scoring === 'AREA' ? handicap + 0.5 : 0.5;
+  return { ...rules, komi };
+};
+
+// Maps an SGF RU[] value (case-insensitive, common aliases) to a rule set
+export const ruleSetFromSgf = (ru: string): RuleSet | null => {
+  const name = ru.trim().toLowerCase();
+  if (name.startsWith('chinese') || name === 'cn') return RULE_SETS.CHINESE;
+  if (name.startsWith('japanese') || name === 'jp') return RULE_SETS.JAPANESE;
+  if (name.startsWith('aga')) return RULE_SETS.AGA;
+  if (name === 'nz' || name.startsWith('new zealand')) return RULE_SETS.NEW_ZEALAND;
+  return null;
+};
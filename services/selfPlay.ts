@@ -0,0 +1,120 @@
+
+import { BoardState } from '../types';
+import { createBoard, getLegalMoves, placeStone, playPass, calculateScore } from './gameLogic';
+import { fromBoardState } from './fastBoard';
+import { createSearch, PlayoutPolicy, PASS_POINT } from './mcts';
+import { proposeDeadStones } from './simpleAi';
+import { RULE_SETS } from './ruleSets';
+
+/**
+ * Self-play benchmark for the offline engine: two search settings play each other with
+ * alternating colours and the win rate is reported. Run it with `npm run selfplay`
+ * (scripts/selfplay.js); searches run synchronously, without the Web Worker.
+ */
+
+export interface SelfPlayPlayer {
+  name: string;
+  policy: PlayoutPolicy;
+  playouts: number; // Per move, so policies of different speeds are compared on equal search
+}
+
+export interface SelfPlayOptions {
+  players: [SelfPlayPlayer, SelfPlayPlayer];
+  games: number;
+  size?: number;
+  komi?: number;
+  onGame?: (game: SelfPlayGame) => void;
+}
+
+export interface SelfPlayGame {
+  index: number;
+  black: string;
+  white: string;
+  winner: string | null; // null for a tie (jigo)
+  margin: number;
+  moves: number;
+  msPerMove: [number, number]; // Per player, in `players` order
+}
+
+export interface SelfPlayReport {
+  games: SelfPlayGame[];
+  winRate: number; // Of the first player, a jigo counting as half a win
+  interval: [number, number]; // 95% confidence (Wilson) for winRate
+}
+
+const DEAD_STONE_PLAYOUTS = 48;
+
+const chooseMove = (board: BoardState, player: SelfPlayPlayer): number => {
+  const candidates = getLegalMoves(board).map(c => c.y * board.size + c.x);
+  if (candidates.length === 0) return PASS_POINT;
+  const lastMove = board.history[board.history.length - 1];
+  const search = createSearch(fromBoardState(board), {
+    komi: board.rules.komi,
+    candidates,
+    opponentPassed: lastMove?.type === 'PASS',
+    policy: player.policy
+  });
+  search.step(player.playouts);
+  return search.result().move;
+};
+
+const wilsonInterval = (wins: number, n: number): [number, number] => {
+  if (n === 0) return [0, 1];
+  const z = 1.96;
+  const p = wins / n;
+  const centre = (p + z * z / (2 * n)) / (1 + z * z / n);
+  const spread = (z / (1 + z * z / n)) * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n));
+  return [Math.max(0, centre - spread), Math.min(1, centre + spread)];
+};
+
+const playGame = async (
+  index: number,
+  [first, second]: [SelfPlayPlayer, SelfPlayPlayer],
+  firstIsBlack: boolean,
+  size: number,
+  komi: number
+): Promise<SelfPlayGame> => {
+  const black = firstIsBlack ? first : second;
+  const white = firstIsBlack ? second : first;
+  let board = createBoard(size, { ...RULE_SETS.CHINESE, komi });
+  const time = { BLACK: 0, WHITE: 0 };
+  const maxMoves = size * size * 3;
+
+  while (board.history.length < maxMoves) {
+    const start = performance.now();
+    const move = chooseMove(board, board.turn === 'BLACK' ? black : white);
+    time[board.turn] += performance.now() - start;
+
+    const previous = board.history[board.history.length - 1];
+    const next = move === PASS_POINT ? null : placeStone(board, { x: move % size, y: Math.floor(move / size) });
+    board = next ?? playPass(board);
+    if (!next && previous?.type === 'PASS') break;
+  }
+
+  const score = calculateScore(board, await proposeDeadStones(board, DEAD_STONE_PLAYOUTS));
+  const movesEach = Math.max(1, Math.ceil(board.history.length / 2));
+  const blackMs = time.BLACK / movesEach;
+  const whiteMs = time.WHITE / movesEach;
+  return {
+    index,
+    black: black.name,
+    white: white.name,
+    winner: score.winner && (score.winner === 'BLACK' ? black.name : white.name),
+    margin: score.diff,
+    moves: board.history.length,
+    msPerMove: firstIsBlack ? [blackMs, whiteMs] : [whiteMs, blackMs]
+  };
+};
+
+export const runSelfPlay = async ({ players, games, size = 9, komi = 7, onGame }: SelfPlayOptions): Promise<SelfPlayReport> => {
+  const results: SelfPlayGame[] = [];
+  for (let i = 0; i < games; i++) {
+    // Alternate colours so neither player keeps the first move
+    const game = await playGame(i + 1, players, i % 2 === 0, size, komi);
+    results.push(game);
+    onGame?.(game);
+  }
+
+  const wins = results.reduce((sum, game) => sum + (game.winner === players[0].name ? 1 : game.winner ? 0 : 0.5), 0);
+  return { games: results, winRate: games > 0 ? wins / games : 0, interval: wilsonInterval(wins, games) };
+};
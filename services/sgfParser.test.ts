@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { readSgf, writeSgf, SGF_SYNTAX_ERROR } from './sgfParser';
+
+const GAME = '(;FF[4]GM[1]SZ[9]C[a \\] b \\\\ c\nnext]AB[aa:bb];B[cc](;W[dd])(;W[ee]C[x]))';
+
+describe('readSgf / writeSgf', () => {
+  it('reads properties, escapes and variations', () => {
+    const { trees, warnings } = readSgf(GAME);
+    expect(warnings).toEqual([]);
+    expect(trees).toEqual([{
+      nodes: [{ FF: ['4'], GM: ['1'], SZ: ['9'], C: ['a ] b \\ c\nnext'], AB: ['aa:bb'] }, { B: ['cc'] }],
+      variations: [
+        { nodes: [{ W: ['dd'] }], variations: [] },
+        { nodes: [{ W: ['ee'], C: ['x'] }], variations: [] }
+      ]
+    }]);
+  });
+
+  it('round-trips through the writer', () => {
+    const { trees } = readSgf(GAME);
+    const written = writeSgf(trees);
+    expect(readSgf(written)).toEqual({ trees, warnings: [] });
+    expect(writeSgf(readSgf(written).trees)).toBe(written);
+  });
+
+  it('round-trips a collection of games', () => {
+    const { trees } = readSgf('(;SZ[9];B[aa])(;SZ[13];W[])');
+    expect(trees).toHaveLength(2);
+    expect(readSgf(writeSgf(trees)).trees).toEqual(trees);
+  });
+});
+
+describe('readSgf recovery', () => {
+  it('closes a game tree left open at the end of the file', () => {
+    const { trees, warnings } = readSgf('junk (;FF[4]SZ[9];B[aa];W[bb]');
+    expect(trees[0].nodes).toEqual([{ FF: ['4'], SZ: ['9'] }, { B: ['aa'] }, { W: ['bb'] }]);
+    expect(warnings.map(w => w.message)).toEqual(["Missing ')' at end of file"]);
+  });
+
+  it('normalises old-style identifiers and merges duplicate properties', () => {
+    const { trees, warnings } = readSgf('(;SZ[9]AddBlack[aa];b[bb];B[cc]B[dd])');
+    expect(trees[0].nodes).toEqual([{ SZ: ['9'], AB: ['aa'] }, { B: ['bb'] }, { B: ['cc', 'dd'] }]);
+    expect(warnings).toHaveLength(3);
+    expect(warnings[0]).toMatchObject({ line: 1, column: 8 });
+  });
+
+  it('keeps an unterminated value', () => {
+    const { trees, warnings } = readSgf('(;C[unterminated');
+    expect(trees[0].nodes).toEqual([{ C: ['unterminated'] }]);
+    expect(warnings.map(w => w.message)).toContain('Unterminated property value');
+  });
+
+  it('throws with the position of the problem in strict mode', () => {
+    expect(() => readSgf('(;SZ[9]AddBlack[aa])', { strict: true }))
+      .toThrow(expect.objectContaining({ name: SGF_SYNTAX_ERROR, line: 1, column: 8 }));
+  });
+
+  it('throws when there is no game tree at all', () => {
+    expect(() => readSgf('no tree here')).toThrow(expect.objectContaining({ name: SGF_SYNTAX_ERROR }));
+  });
+});
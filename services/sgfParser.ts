@@ -0,0 +1,260 @@
+
+/**
+ * SGF FF[4] reader and writer (https://www.red-bean.com/sgf/sgf4.html).
+ * This layer only knows the generic property tree; what the properties mean for a Go game lives in sgfService.
+ */
+
+// Property identifier -> values. Values are stored unescaped, with line breaks normalised to "\n".
+export type SgfNode = Record<string, string[]>;
+
+// A sequence of nodes followed by its variations; the first variation continues the main line
+export interface SgfGameTree {
+  nodes: SgfNode[];
+  variations: SgfGameTree[];
+}
+
+export interface SgfIssue {
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface SgfReadResult {
+  trees: SgfGameTree[]; // A file may hold a collection of games
+  warnings: SgfIssue[]; // Problems that were recovered from
+}
+
+// Thrown (as error.name) when the text can't be read; the error also carries `line` and `column`
+export const SGF_SYNTAX_ERROR = 'SgfSyntaxError';
+
+export type SgfSyntaxError = Error & SgfIssue;
+
+const syntaxError = ({ message, line, column }: SgfIssue): SgfSyntaxError =>
+  Object.assign(new Error(`${message} (line ${line}, column ${column})`), { name: SGF_SYNTAX_ERROR, line, column });
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\f' || ch === '\v';
+const isLetter = (ch: string) => (ch >= 'A' && ch <= 'Z') || (ch >= 'a' && ch <= 'z');
+
+/**
+ * FF[1]-FF[3] allowed lower-case letters in identifiers ("AddBlack" is AB); they are dropped.
+ * An all lower-case identifier ("b[aa]", written by some broken tools) is upper-cased instead.
+ */
+const normaliseIdentifier = (raw: string): string => {
+  const upper = raw.replace(/[a-z]/g, '');
+  return upper || raw.toUpperCase();
+};
+
+/**
+ * Reads an SGF collection. By default it is lenient: common breakage (text around the collection,
+ * missing closing parentheses, unterminated values, properties outside a node, duplicate properties,
+ * old-style identifiers) is recovered from and reported in `warnings`. With `strict` the first
+ * problem throws an SGF_SYNTAX_ERROR instead. A text without any game tree always throws.
+ */
+export const readSgf = (text: string, options: { strict?: boolean } = {}): SgfReadResult => {
+  const trees: SgfGameTree[] = [];
+  const warnings: SgfIssue[] = [];
+  const stack: SgfGameTree[] = []; // Open game trees, innermost last
+  const implicit = new Set<SgfGameTree>(); // Variations opened during recovery; they close with their parent
+  let node: SgfNode | null = null; // Node receiving properties
+
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = () => {
+    const ch = text[pos++];
+    // "\r\n" and "\n\r" count as a single line break
+    if (ch === '\n' || ch === '\r') {
+      const next = text[pos];
+      if ((next === '\n' || next === '\r') && next !== ch) pos++;
+      line++;
+      column = 1;
+      return '\n';
+    }
+    column++;
+    return ch;
+  };
+
+  const warn = (message: string, at: { line: number, column: number } = { line, column }) => {
+    const issue = { message, line: at.line, column: at.column };
+    if (options.strict) throw syntaxError(issue);
+    warnings.push(issue);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && isWhitespace(text[pos])) advance();
+  };
+
+  // Reads "[...]" starting at the '[', resolving escapes
+  const readValue = (): string => {
+    const start = { line, column };
+    advance();
+    let value = '';
+    while (pos < text.length) {
+      const ch = advance();
+      if (ch === ']') return value;
+      if (ch === '\\') {
+        if (pos >= text.length) break;
+        const escaped = advance();
+        // A backslash before a line break is a soft line break and disappears
+        if (escaped !== '\n') value += escaped;
+      } else {
+        value += ch;
+      }
+    }
+    warn('Unterminated property value', start);
+    return value;
+  };
+
+  const openTree = (): SgfGameTree => {
+    const tree: SgfGameTree = { nodes: [], variations: [] };
+    const parent = stack[stack.length - 1];
+    if (parent) parent.variations.push(tree);
+    else trees.push(tree);
+    stack.push(tree);
+    node = null;
+    return tree;
+  };
+
+  const closeTree = () => {
+    while (stack.length > 0 && implicit.has(stack[stack.length - 1])) stack.pop();
+    const tree = stack.pop()!;
+    node = null;
+    if (tree.nodes.length > 0 || tree.variations.length > 0) return;
+    // "()" carries nothing; drop it
+    const parent = stack[stack.length - 1];
+    const siblings = parent ? parent.variations : trees;
+    siblings.splice(siblings.indexOf(tree), 1);
+  };
+
+  const startNode = (at: { line: number, column: number }): SgfNode => {
+    let tree = stack[stack.length - 1];
+    if (tree.variations.length > 0) {
+      // "(;B[aa](;W[bb]);W[cc])": nodes after the variations become one more variation
+      warn('Node after variations; read as another variation', at);
+      tree = openTree();
+      implicit.add(tree);
+    }
+    const created: SgfNode = {};
+    tree.nodes.push(created);
+    node = created;
+    return created;
+  };
+
+  let junkReported = false;
+
+  while (pos < text.length) {
+    const ch = text[pos];
+
+    if (isWhitespace(ch)) {
+      advance();
+      continue;
+    }
+
+    // Anything outside the collection (mail headers, trailing notes) is ignored
+    if (stack.length === 0 && ch !== '(' && ch !== ';') {
+      advance();
+      continue;
+    }
+
+    if (ch === '(') {
+      const at = { line, column };
+      advance();
+      const parent = stack[stack.length - 1];
+      if (parent && parent.nodes.length === 0 && parent.variations.length === 0) warn('Game tree without nodes', at);
+      openTree();
+      junkReported = false;
+      continue;
+    }
+
+    if (ch === ')') {
+      advance();
+      closeTree();
+      junkReported = false;
+      continue;
+    }
+
+    if (ch === ';') {
+      const at = { line, column };
+      if (stack.length === 0) {
+        warn("Node outside a game tree; missing '('", at);
+        openTree();
+      }
+      advance();
+      startNode(at);
+      junkReported = false;
+      continue;
+    }
+
+    if (isLetter(ch)) {
+      const at = { line, column };
+      let raw = '';
+      while (pos < text.length && isLetter(text[pos])) raw += advance();
+      const identifier = normaliseIdentifier(raw);
+      if (identifier !== raw) warn(`Property identifier "${raw}" read as "${identifier}"`, at);
+
+      const values: string[] = [];
+      skipWhitespace();
+      while (pos < text.length && text[pos] === '[') {
+        values.push(readValue());
+        skipWhitespace();
+      }
+      if (values.length === 0) {
+        warn(`Property ${identifier} has no value`, at);
+        continue;
+      }
+
+      let target = node;
+      if (!target) {
+        warn(`Property ${identifier} outside a node`, at);
+        target = startNode(at);
+      }
+      if (target[identifier]) {
+        warn(`Duplicate property ${identifier}; values merged`, at);
+        target[identifier] = [...target[identifier], ...values];
+      } else {
+        target[identifier] = values;
+      }
+      junkReported = false;
+      continue;
+    }
+
+    if (ch === '[') {
+      warn('Property value without an identifier');
+      readValue();
+      continue;
+    }
+
+    // Report a run of stray characters once
+    if (!junkReported) warn(`Unexpected character "${ch}"`);
+    junkReported = true;
+    advance();
+  }
+
+  if (stack.length > 0) {
+    warn("Missing ')' at end of file");
+    while (stack.length > 0) closeTree();
+  }
+  if (trees.length === 0) throw syntaxError({ message: 'No SGF game tree found', line, column });
+
+  return { trees, warnings };
+};
+
+const escapeValue = (value: string): string => value.replace(/[\]\\]/g, ch => `\\${ch}`);
+
+const writeNode = (node: SgfNode): string =>
+  ';' + Object.entries(node)
+    .map(([identifier, values]) => identifier + values.map(v => `[${escapeValue(v)}]`).join(''))
+    .join('');
+
+const writeTree = (tree: SgfGameTree, isGameRoot: boolean): string => {
+  // The root node of a game gets a line of its own, each variation starts on a new line
+  let sgf = '(' + tree.nodes.map((node, i) => (isGameRoot && i === 1 ? '\n' : '') + writeNode(node)).join('');
+  tree.variations.forEach(variation => {
+    sgf += '\n' + writeTree(variation, isGameRoot && tree.nodes.length === 0);
+  });
+  return sgf + ')';
+};
+
+// Writes a collection; reading the result back gives the same trees
+export const writeSgf = (trees: SgfGameTree[]): string => trees.map(tree => writeTree(tree, true)).join('\n') + '\n';
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createBoard, placeStone, playPass, toggleHandicapStone, calculateScore, setStone } from './gameLogic';
+import { createGameTree, addNode, getCurrentBoard } from './gameTree';
+import { generateSgf, parseSgf, buildGameTreeFromSgf } from './sgfService';
+import { readSgf } from './sgfParser';
+import { RULE_SETS } from './ruleSets';
+
+describe('generateSgf / parseSgf', () => {
+  it('round-trips the moves, passes and rules of a game', () => {
+    let board = createBoard(9, RULE_SETS.JAPANESE);
+    [{ x: 2, y: 2 }, { x: 6, y: 6 }].forEach(c => { board = placeStone(board, c)!; });
+    board = playPass(board);
+
+    const parsed = parseSgf(generateSgf(board));
+    expect(parsed.isValid).toBe(true);
+    expect(parsed.size).toBe(9);
+    expect(parsed.rules?.id).toBe('JAPANESE');
+    expect(parsed.moves).toEqual([
+      { type: 'PLAY', color: 'BLACK', coordinate: { x: 2, y: 2 } },
+      { type: 'PLAY', color: 'WHITE', coordinate: { x: 6, y: 6 } },
+      { type: 'PASS', color: 'BLACK' }
+    ]);
+  });
+
+  it('writes a jigo as RE[0]', () => {
+    let board = createBoard(9, { ...RULE_SETS.CHINESE, komi: 0 });
+    board = playPass(playPass(board));
+    const score = calculateScore(board);
+    const root = readSgf(generateSgf(board, { result: { winner: score.winner, reason: 'SCORING', score } })).trees[0].nodes[0];
+    expect(root.RE).toEqual(['0']);
+  });
+
+  it('writes freely placed handicap stones as HA/AB in the root node', () => {
+    let board = createBoard(9, RULE_SETS.CHINESE);
+    let tree = createGameTree(board);
+    [{ x: 2, y: 2 }, { x: 6, y: 6 }, { x: 4, y: 4 }, { x: 4, y: 4 }].forEach(c => {
+      board = toggleHandicapStone(board, c);
+      tree = addNode(tree, board);
+    });
+    board = placeStone(board, { x: 2, y: 6 })!;
+    tree = addNode(tree, board);
+
+    const sgf = generateSgf(board, { tree });
+    const root = readSgf(sgf).trees[0].nodes[0];
+    expect(root.HA).toEqual(['2']);
+    expect(root.AB).toEqual(['cc', 'gg']);
+
+    const parsed = parseSgf(sgf);
+    expect(parsed.handicapStones).toEqual([{ x: 2, y: 2 }, { x: 6, y: 6 }]);
+    expect(parsed.moves).toEqual([{ type: 'PLAY', color: 'WHITE', coordinate: { x: 2, y: 6 } }]);
+    const loaded = buildGameTreeFromSgf(parsed, RULE_SETS.CHINESE);
+    const start = loaded.nodes.get(loaded.rootId)!.board;
+    expect(start.handicapStones).toEqual([{ x: 2, y: 2 }, { x: 6, y: 6 }]);
+    expect(start.turn).toBe('WHITE');
+  });
+
+  it('keeps the moves around a mid-game setup edit', () => {
+    let board = createBoard(9, RULE_SETS.JAPANESE);
+    let tree = createGameTree(board);
+    const play = (next: typeof board) => { board = next; tree = addNode(tree, board); };
+    play(placeStone(board, { x: 2, y: 2 })!);
+    play(placeStone(board, { x: 6, y: 6 })!);
+    play(setStone(board, { x: 4, y: 4 }, 'WHITE'));
+    play(placeStone(board, { x: 3, y: 3 })!);
+
+    const sgf = generateSgf(board, { tree });
+    expect(readSgf(sgf).trees[0].nodes.slice(1)).toEqual([
+      { B: ['cc'] }, { W: ['gg'] }, { AW: ['ee'], PL: ['B'] }, { B: ['dd'] }
+    ]);
+    const loaded = getCurrentBoard(buildGameTreeFromSgf(parseSgf(sgf), RULE_SETS.JAPANESE));
+    expect(loaded.history).toHaveLength(3);
+    expect(loaded.history).toEqual(board.history);
+    expect(loaded.stones).toEqual(board.stones);
+    expect(loaded.setupEdits).toHaveLength(1);
+  });
+});
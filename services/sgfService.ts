@@ -1,75 +1,410 @@
 
-import { BoardState, StoneColor, Coordinate } from '../types';
-import { toSgfCoordinate, fromSgfCoordinate, toGtpCoordinate } from './gtpUtils';
+import { BoardState, StoneColor, Coordinate, RuleSet, Stone, MoveHistory, GameResult, ChatMessage, Marker, MarkerType } from '../types';
+import { toSgfCoordinate, fromSgfCoordinate, isSgfPass } from './gtpUtils';
+import { isValidBoardSize, createBoardFromPosition, setPlayerToMove, setStone, playPass, placeStone } from './gameLogic';
+import { ruleSetFromSgf } from './ruleSets';
+import { SgfNode, SgfGameTree, SgfIssue, SGF_SYNTAX_ERROR, readSgf, writeSgf } from './sgfParser';
+import { downloadFile } from './download';
+import { GameTree, GameNode, createGameTree, addNode, getPathTo, resetToMainLine } from './gameTree';
 
-// Generates an SGF string from the current board history
-export const generateSgf = (board: BoardState): string => {
+const colorProp = (color: StoneColor): string => color === 'BLACK' ? 'B' : 'W';
+
+const pointValues = (stones: Map<string, StoneColor>, color: StoneColor): string[] => {
+    const points: string[] = [];
+    stones.forEach((c, key) => {
+        if (c !== color) return;
+        const [x, y] = key.split(',').map(Number);
+        points.push(toSgfCoordinate({ x, y }));
+    });
+    return points;
+};
+
+// A player as written to PB/PW, with an optional rank or engine level for BR/WR
+export interface SgfPlayer {
+    name: string;
+    level?: string;
+}
+
+export interface SgfExportOptions {
+    tree?: GameTree; // Write every variation (main line first), not just the moves that led to the board
+    result?: GameResult | null;
+    black?: SgfPlayer;
+    white?: SgfPlayer;
+    messages?: ChatMessage[]; // Written as comments (C) and markup on the node of each message's moveNumber
+}
+
+// RE[]: "B+R" for a resignation, "W+6.5" for a count, "0" for a tie
+const resultValue = (result: GameResult): string => {
+    if (!result.winner) return '0';
+    const winner = colorProp(result.winner);
+    if (result.reason === 'RESIGNATION') return `${winner}+R`;
+    if (!result.score) return `${winner}+`;
+    return `${winner}+${result.score.diff}`;
+};
+
+// Root node: game info, then the handicap and setup stones as AB/AW with PL for the player to move
+const rootNode = (board: BoardState, options: SgfExportOptions): SgfNode => {
     const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-    
-    let sgf = `(;GM[1]FF[4]CA[UTF-8]AP[GoCratic:1.0]ST[2]\n`;
-    sgf += `SZ[${board.size}]KM[0.0]RU[Chinese]DT[${date}]\n`;
-    sgf += `PB[Black]PW[White]\n`;
-
-    // Add Setup Stones if board history is empty but stones exist (Setup Mode)
-    // Note: A robust implementation would differentiate between setup stones and moves.
-    // For this simple app, we primarily save the Move History.
-    
-    // Moves
-    board.history.forEach(move => {
-       const color = move.color === 'BLACK' ? 'B' : 'W';
-       // Handle Pass
-       let coordStr = "";
-       if (move.coordinate.x >= 0 && move.coordinate.y >= 0) {
-           coordStr = toSgfCoordinate(move.coordinate);
-       }
-       sgf += `;${color}[${coordStr}]`; 
+    const node: SgfNode = {
+        GM: ['1'], FF: ['4'], CA: ['UTF-8'], AP: ['GoCratic:1.0'], ST: ['2'],
+        SZ: [String(board.size)], KM: [board.rules.komi.toFixed(1)], RU: [board.rules.sgfName], DT: [date]
+    };
+    if (options.black) node.PB = [options.black.name];
+    if (options.black?.level) node.BR = [options.black.level];
+    if (options.white) node.PW = [options.white.name];
+    if (options.white?.level) node.WR = [options.white.level];
+    if (options.result) node.RE = [resultValue(options.result)];
+    if (board.handicapStones.length > 0) node.HA = [String(board.handicapStones.length)];
+    const blackSetup = pointValues(board.initialPosition.stones, 'BLACK');
+    const whiteSetup = pointValues(board.initialPosition.stones, 'WHITE');
+    if (blackSetup.length > 0) node.AB = blackSetup;
+    if (whiteSetup.length > 0) node.AW = whiteSetup;
+    if (blackSetup.length > 0 || whiteSetup.length > 0) node.PL = [colorProp(board.initialPosition.turn)];
+    return node;
+};
+
+const MARKUP_PROPERTIES: Record<MarkerType, string> = { TRIANGLE: 'TR', CIRCLE: 'CR', SQUARE: 'SQ', X: 'MA' };
+
+// Adds markers as TR/CR/SQ/MA (one shape per point, as SGF requires) plus LB for labelled ones
+export const addMarkup = (node: SgfNode, markers: Marker[]) => {
+    const shaped = new Set(Object.values(MARKUP_PROPERTIES).flatMap(prop => node[prop] || []));
+    const labelled = new Set((node.LB || []).map(value => value.split(':')[0]));
+    markers.forEach(marker => {
+        const point = toSgfCoordinate(marker);
+        if (!shaped.has(point)) {
+            const prop = MARKUP_PROPERTIES[marker.type];
+            node[prop] = [...(node[prop] || []), point];
+            shaped.add(point);
+        }
+        if (marker.label && !labelled.has(point)) {
+            node.LB = [...(node.LB || []), `${point}:${marker.label}`];
+            labelled.add(point);
+        }
+    });
+};
+
+// The reverse of addMarkup; a label without a shape gets a circle, as the board draws labels
+export const readMarkup = (node: SgfNode, size: number): Marker[] => {
+    const markers = new Map<string, Marker>();
+    (Object.keys(MARKUP_PROPERTIES) as MarkerType[]).forEach(type => {
+        expandPoints(node[MARKUP_PROPERTIES[type]], size).forEach(point => {
+            const key = `${point.x},${point.y}`;
+            if (!markers.has(key)) markers.set(key, { ...point, type });
+        });
+    });
+    (node.LB || []).forEach(value => {
+        const separator = value.indexOf(':');
+        const point = fromSgfCoordinate(value.slice(0, separator), size);
+        if (separator === -1 || !point) return;
+        const key = `${point.x},${point.y}`;
+        markers.set(key, { ...(markers.get(key) ?? { ...point, type: 'CIRCLE' }), label: value.slice(separator + 1) });
     });
+    return [...markers.values()];
+};
+
+// Chat goes on the node reached after `moveNumber` moves of the game's line (the last one if it's past the end)
+const addMessages = (line: SgfNode[], messages: ChatMessage[]) => {
+    messages.forEach(message => {
+        const node = line[Math.max(0, Math.min(message.moveNumber, line.length - 1))];
+        const text = `${message.sender === 'user' ? 'Student' : 'GoBot'}: ${message.text}`;
+        node.C = [node.C ? `${node.C[0]}\n\n${text}` : text];
+        if (message.markers) addMarkup(node, message.markers);
+    });
+};
+
+// A pass is an empty B[]/W[]; a resignation only shows up in the result, so it has no node
+const moveNode = (move: MoveHistory): SgfNode | null => {
+    if (move.type === 'RESIGN') return null;
+    return { [colorProp(move.color)]: [move.type === 'PLAY' ? toSgfCoordinate(move.coordinate) : ''] };
+};
+
+// A position edited in Setup Mode, written as the stones added (AB/AW) and removed (AE) since `before`
+const setupNode = (before: BoardState, after: BoardState): SgfNode => {
+    const node: SgfNode = {};
+    const added = new Map<string, StoneColor>();
+    after.stones.forEach((color, key) => {
+        if (before.stones.get(key) !== color) added.set(key, color);
+    });
+    const removed: string[] = [];
+    before.stones.forEach((_, key) => {
+        if (!after.stones.has(key)) {
+            const [x, y] = key.split(',').map(Number);
+            removed.push(toSgfCoordinate({ x, y }));
+        }
+    });
+    const blackAdded = pointValues(added, 'BLACK');
+    const whiteAdded = pointValues(added, 'WHITE');
+    if (blackAdded.length > 0) node.AB = blackAdded;
+    if (whiteAdded.length > 0) node.AW = whiteAdded;
+    if (removed.length > 0) node.AE = removed;
+    node.PL = [colorProp(after.turn)];
+    return node;
+};
+
+const moveNodes = (moves: MoveHistory[]): SgfNode[] =>
+    moves.map(moveNode).filter((node): node is SgfNode => node !== null);
+
+// One branch of the game tree from `start`: nodes until the next fork, then every continuation as a variation.
+// `written` records the SGF node made for each game-tree node.
+const treeBranch = (tree: GameTree, start: GameNode, parent: BoardState, written: Map<string, SgfNode>): SgfGameTree => {
+    const nodes: SgfNode[] = [];
+    let node = start;
+    let before = parent;
+    for (;;) {
+        const sgfNode = node.move ? moveNode(node.move) : setupNode(before, node.board);
+        if (sgfNode) {
+            nodes.push(sgfNode);
+            written.set(node.id, sgfNode);
+        }
+        if (node.childIds.length !== 1) break;
+        before = node.board;
+        node = tree.nodes.get(node.childIds[0])!;
+    }
+    const variations = node.childIds.map(id => treeBranch(tree, tree.nodes.get(id)!, node.board, written));
+    return { nodes, variations };
+};
+
+const isHandicapPoint = (board: BoardState, key: string): boolean =>
+    board.handicapStones.some(h => `${h.x},${h.y}` === key);
+
+// A setup edit that only placed or removed handicap stones (free placement)
+const isHandicapEdit = (parent: BoardState, node: GameNode): boolean => {
+    if (node.move || node.board.handicapStones.length === 0) return false;
+    const keys = new Set([...parent.stones.keys(), ...node.board.stones.keys()]);
+    return [...keys].every(key =>
+        parent.stones.get(key) === node.board.stones.get(key) || isHandicapPoint(parent, key) || isHandicapPoint(node.board, key));
+};
+
+// Freely placed handicap stones are setup nodes below the root; the node after the last one holds the
+// real starting position, so it becomes the SGF root with HA/AB like a fixed handicap
+const handicapStart = (tree: GameTree, root: GameNode): GameNode => {
+    let node = root;
+    while (node.childIds.length === 1) {
+        const child = tree.nodes.get(node.childIds[0])!;
+        if (!isHandicapEdit(node.board, child)) break;
+        node = child;
+    }
+    return node;
+};
 
-    sgf += `)`;
-    return sgf;
+/**
+ * Generates an SGF record of the game: game info (players, result, rules, komi) in the root node,
+ * the moves, and the chat as comments with the sensei's markers as markup, so the file can be
+ * reviewed as a lesson in any SGF viewer.
+ */
+export const generateSgf = (board: BoardState, options: SgfExportOptions = {}): string => {
+    const { tree, messages = [] } = options;
+    if (!tree) {
+        const line = [rootNode(board, options), ...moveNodes(board.history)];
+        addMessages(line, messages);
+        return writeSgf([{ nodes: line, variations: [] }]);
+    }
+
+    // The root position is the initial position (handicap stones included); game info and rules come from `board`
+    const root = handicapStart(tree, tree.nodes.get(tree.rootId)!);
+    const written = new Map<string, SgfNode>();
+    const game = treeBranch(tree, root, root.board, written);
+    game.nodes[0] = rootNode({ ...root.board, rules: board.rules }, options);
+    written.set(root.id, game.nodes[0]);
+
+    // Chat belongs to the line that was played up to the current position
+    const line = getPathTo(tree, tree.currentId)
+        .map(id => written.get(id))
+        .filter((node): node is SgfNode => node !== undefined);
+    addMessages(line, messages);
+    return writeSgf([game]);
 };
 
-interface SgfParseResult {
+// Offers an SGF record as a file download
+export const downloadSgf = (sgf: string, filename: string) => downloadFile(sgf, filename, 'application/x-go-sgf');
+
+// A move from the file: a stone or a pass (resignations aren't moves in SGF)
+export type SgfMove =
+    | { type: 'PLAY'; color: StoneColor; coordinate: Coordinate }
+    | { type: 'PASS'; color: StoneColor };
+
+export interface SgfParseResult {
     size: number;
-    moves: { color: StoneColor, coordinate: Coordinate }[];
+    moves: SgfMove[]; // Main line
+    rules: RuleSet | null; // From RU[], with KM[] applied; null if RU is missing or unknown
+    komi: number | null;
+    handicapStones: Coordinate[]; // From AB[] when HA[] is set
+    setupStones: Stone[]; // Root AB[]/AW[] (minus AE[]), handicap stones included
+    playerToMove: StoneColor | null; // Root PL[]
+    game: SgfGameTree | null; // The first game of the file, variations included; game.nodes[0] is its root node
+    warnings: SgfIssue[]; // Syntax problems that were recovered from
+    error: string | null; // Why the file can't be loaded, when !isValid
     isValid: boolean;
 }
 
-// Simple SGF Parser (Main Line Only)
+const invalidSgf = (error: string, warnings: SgfIssue[] = []): SgfParseResult => ({
+    size: 19, moves: [], rules: null, komi: null, handicapStones: [], setupStones: [], playerToMove: null,
+    game: null, warnings, error, isValid: false
+});
+
+// Point lists may be compressed: "aa:cc" stands for the rectangle from aa to cc
+const expandPoints = (values: string[] | undefined, size: number): Coordinate[] => {
+    const points: Coordinate[] = [];
+    (values || []).forEach(value => {
+        const [first, last] = value.split(':');
+        const from = fromSgfCoordinate(first, size);
+        if (!from) return;
+        const to = last !== undefined ? fromSgfCoordinate(last, size) : from;
+        if (!to) return;
+        for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+            for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) points.push({ x, y });
+        }
+    });
+    return points;
+};
+
+const parseColor = (value: string | undefined): StoneColor | null => {
+    const v = value?.trim().toUpperCase();
+    if (v === 'B' || v === 'BLACK') return 'BLACK';
+    if (v === 'W' || v === 'WHITE') return 'WHITE';
+    return null;
+};
+
+// The B[] or W[] move of a node; null if there is none (or it's off the board)
+const nodeMove = (node: SgfNode, size: number): SgfMove | null => {
+    for (const color of ['BLACK', 'WHITE'] as StoneColor[]) {
+        const value = node[colorProp(color)]?.[0];
+        if (value === undefined) continue;
+        const trimmed = value.trim();
+        if (isSgfPass(trimmed, size)) return { type: 'PASS', color };
+        const coordinate = fromSgfCoordinate(trimmed, size);
+        return coordinate ? { type: 'PLAY', color, coordinate } : null;
+    }
+    return null;
+};
+
+// Nodes along the main line: each sequence, then its first variation
+const mainLineNodes = (game: SgfGameTree): SgfNode[] => {
+    const nodes: SgfNode[] = [];
+    for (let branch: SgfGameTree | undefined = game; branch; branch = branch.variations[0]) nodes.push(...branch.nodes);
+    return nodes;
+};
+
+/**
+ * Parses an SGF file (FF[1]-FF[4]) into the first game's property tree plus the facts needed to
+ * set it up: size, rules, komi, handicap, the root setup position and the main-line moves.
+ * Broken files are read as far as possible; what was repaired is listed in `warnings`.
+ */
 export const parseSgf = (sgf: string): SgfParseResult => {
+    let read;
     try {
-        // 1. Get Size
-        const szMatch = sgf.match(/SZ\[(\d+)\]/);
-        const size = szMatch ? parseInt(szMatch[1], 10) : 19; // Default 19 if not found
-
-        // 2. Extract Moves
-        const moves: { color: StoneColor, coordinate: Coordinate }[] = [];
-        
-        // Regex to find nodes like ;B[aa] or ;W[] or ;W[tt]
-        // This regex assumes the standard format where properties are inside nodes starting with ;
-        // We look for B[...] or W[...]
-        const moveRegex = /;([BW])\[([a-zA-Z]*)\]/g;
-        
-        let match;
-        while ((match = moveRegex.exec(sgf)) !== null) {
-            const colorChar = match[1];
-            const coordStr = match[2];
-            const color: StoneColor = colorChar === 'B' ? 'BLACK' : 'WHITE';
-            
-            if (!coordStr || coordStr === "") {
-                // Pass
-                moves.push({ color, coordinate: { x: -1, y: -1 } });
-            } else {
-                const coord = fromSgfCoordinate(coordStr);
-                if (coord) {
-                    moves.push({ color, coordinate: coord });
-                }
+        read = readSgf(sgf);
+    } catch (e) {
+        if ((e as Error).name !== SGF_SYNTAX_ERROR) throw e;
+        console.error("SGF Parse Error", (e as Error).message);
+        return invalidSgf((e as Error).message);
+    }
+
+    // "((;...))" wraps the game in an extra level; unwrap it
+    let game = read.trees[0];
+    while (game.nodes.length === 0 && game.variations.length > 0) game = game.variations[0];
+    const root = game.nodes[0] || {};
+
+    if (root.GM && root.GM[0].trim() !== '1') return invalidSgf(`Not a Go game record (GM[${root.GM[0]}])`, read.warnings);
+
+    // 1. Size: SZ[19] or, in FF[4], SZ[cols:rows]
+    const [cols, rows = cols] = (root.SZ?.[0] ?? '19').split(':').map(v => parseInt(v, 10));
+    if (cols !== rows) return invalidSgf(`Rectangular boards aren't supported (SZ[${root.SZ![0]}])`, read.warnings);
+    const size = cols;
+    if (!isValidBoardSize(size)) {
+        console.error(`SGF Parse Error: unsupported board size ${size}`);
+        return { ...invalidSgf(`Unsupported board size ${root.SZ![0]}`, read.warnings), size };
+    }
+
+    // 2. Rules & Komi
+    const parsedKomi = root.KM ? parseFloat(root.KM[0]) : NaN;
+    const komi = isNaN(parsedKomi) ? null : parsedKomi;
+    const ruleSet = root.RU ? ruleSetFromSgf(root.RU[0]) : null;
+    const rules = ruleSet && komi !== null ? { ...ruleSet, komi } : ruleSet;
+
+    // 3. Setup position (AB/AW/AE/PL) and handicap (HA) in the root node
+    const cleared = new Set(expandPoints(root.AE, size).map(c => `${c.x},${c.y}`));
+    const setupStones: Stone[] = [
+        ...expandPoints(root.AB, size).map(c => ({ ...c, color: 'BLACK' as StoneColor })),
+        ...expandPoints(root.AW, size).map(c => ({ ...c, color: 'WHITE' as StoneColor }))
+    ].filter(s => !cleared.has(`${s.x},${s.y}`));
+
+    // HA[n] counts the first n Black setup stones as handicap stones
+    const handicapCount = root.HA ? parseInt(root.HA[0], 10) : 0;
+    const handicapStones: Coordinate[] = handicapCount >= 2
+        ? setupStones.filter(s => s.color === 'BLACK').slice(0, handicapCount).map(({ x, y }) => ({ x, y }))
+        : [];
+
+    const playerToMove = parseColor(root.PL?.[0]);
+
+    // 4. Main-line moves
+    const moves = mainLineNodes(game)
+        .map(node => nodeMove(node, size))
+        .filter((move): move is SgfMove => move !== null);
+
+    return { size, moves, rules, komi, handicapStones, setupStones, playerToMove, game, warnings: read.warnings, error: null, isValid: true };
+};
+
+// Applies a node to the position: setup (AE, AB, AW, PL) first, then the move. Null if the move is illegal.
+const applyNode = (board: BoardState, node: SgfNode): BoardState | null => {
+    let next = board;
+    expandPoints(node.AE, board.size).forEach(c => { next = setStone(next, c, null); });
+    expandPoints(node.AB, board.size).forEach(c => { next = setStone(next, c, 'BLACK'); });
+    expandPoints(node.AW, board.size).forEach(c => { next = setStone(next, c, 'WHITE'); });
+    const toPlay = parseColor(node.PL?.[0]);
+    if (toPlay && toPlay !== next.turn) next = setPlayerToMove(next, toPlay);
+
+    const move = nodeMove(node, board.size);
+    if (!move) return next;
+    // Files may have two moves in a row by the same colour; follow the record
+    if (move.color !== next.turn) next = setPlayerToMove(next, move.color);
+    return move.type === 'PASS' ? playPass(next) : placeStone(next, move.coordinate);
+};
+
+/**
+ * Rebuilds a game from a parsed SGF as a game tree: the setup position first, then every
+ * variation through the rules, ending at the end of the main line. A variation stops at
+ * its first illegal move. Nodes that change nothing on the board (comments only) are skipped.
+ */
+export const buildGameTreeFromSgf = (parsed: SgfParseResult, defaultRules: RuleSet): GameTree => {
+    const stones = new Map<string, StoneColor>(parsed.setupStones.map(s => [`${s.x},${s.y}`, s.color]));
+    const firstMover = parsed.moves.length > 0 ? parsed.moves[0].color : null;
+    const turn: StoneColor = parsed.playerToMove ?? firstMover ?? (parsed.handicapStones.length > 0 ? 'WHITE' : 'BLACK');
+    const rules = parsed.rules ?? (parsed.komi !== null ? { ...defaultRules, komi: parsed.komi } : defaultRules);
+
+    const start = createBoardFromPosition(parsed.size, rules, { stones, turn }, parsed.handicapStones);
+    let tree = createGameTree(start);
+    if (!parsed.game) return tree;
+
+    // The root's setup is already in `start`; a move in the root node is still played
+    const game = parsed.game;
+    const { AB, AW, AE, PL, ...rootRest } = game.nodes[0] || {};
+
+    // Depth-first over the branches; variations are pushed in reverse so the main line is added first
+    const pending: { branch: SgfGameTree; nodes: SgfNode[]; parentId: string; board: BoardState }[] = [
+        { branch: game, nodes: [rootRest, ...game.nodes.slice(1)], parentId: tree.rootId, board: start }
+    ];
+    while (pending.length > 0) {
+        const { branch, nodes, parentId: branchParent, board: branchStart } = pending.pop()!;
+        let parentId = branchParent;
+        let board: BoardState | null = branchStart;
+        for (const node of nodes) {
+            const next: BoardState | null = applyNode(board, node);
+            if (!next) {
+                board = null;
+                break;
+            }
+            if (next !== board) {
+                tree = addNode(tree, next, parentId);
+                parentId = tree.currentId;
+                board = next;
             }
         }
-
-        return { size, moves, isValid: true };
-    } catch (e) {
-        console.error("SGF Parse Error", e);
-        return { size: 19, moves: [], isValid: false };
+        if (!board) continue;
+        for (let i = branch.variations.length - 1; i >= 0; i--) {
+            const variation = branch.variations[i];
+            pending.push({ branch: variation, nodes: variation.nodes, parentId, board });
+        }
     }
+    return resetToMainLine(tree);
 };
@@ -0,0 +1,89 @@
+
+import { Marker } from '../types';
+import { readSgf, writeSgf, SgfNode } from './sgfParser';
+import { addMarkup, readMarkup } from './sgfService';
+
+/**
+ * Links to a game or position ("look at this!"). Everything lives in the URL hash, so nothing
+ * is uploaded: the SGF record (deflated when the browser can), the path to the position being
+ * shown and the sensei's markers on it.
+ *
+ *   #z=<base64url deflate-raw SGF>&at=<child indices>&mk=<SGF markup>
+ *
+ * `s=` instead of `z=` holds the SGF uncompressed. `at` lists the child index taken at every
+ * step from the root, e.g. "0*12.1.0*3" for 12 main-line moves, the second variation, then 3 more.
+ */
+
+export interface SharedGame {
+  sgf: string;
+  path: number[]; // Child indices from the root to the shared position
+  markers: Marker[];
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+// Runs of equal indices as "index*count", so long main lines stay short
+const encodePath = (path: number[]): string => {
+  const runs: string[] = [];
+  for (let i = 0; i < path.length;) {
+    let j = i;
+    while (j < path.length && path[j] === path[i]) j++;
+    runs.push(j - i > 1 ? `${path[i]}*${j - i}` : String(path[i]));
+    i = j;
+  }
+  return runs.join('.');
+};
+
+const decodePath = (text: string): number[] =>
+  text.split('.').filter(Boolean).flatMap(run => {
+    const [index, count] = run.split('*').map(n => parseInt(n, 10));
+    return isNaN(index) || index < 0 ? [] : Array(isNaN(count) ? 1 : Math.min(count, 1000)).fill(index);
+  });
+
+export const createShareHash = async ({ sgf, path, markers }: SharedGame): Promise<string> => {
+  const bytes = new TextEncoder().encode(sgf);
+  const params = new URLSearchParams();
+  if (canCompress()) params.set('z', toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw'))));
+  else params.set('s', toBase64Url(bytes));
+  if (path.length > 0) params.set('at', encodePath(path));
+  if (markers.length > 0) {
+    const node: SgfNode = {};
+    addMarkup(node, markers);
+    params.set('mk', writeSgf([{ nodes: [node], variations: [] }]).trim().slice(2, -1)); // Just the properties of "(;...)"
+  }
+  return params.toString();
+};
+
+// Full link to this page with the game in its hash
+export const createShareUrl = async (shared: SharedGame): Promise<string> =>
+  `${window.location.origin}${window.location.pathname}#${await createShareHash(shared)}`;
+
+/** Reads a shared game from a location hash; null if the hash doesn't hold one. Throws on a damaged link. */
+export const readShareHash = async (hash: string): Promise<SharedGame | null> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const compressed = params.get('z');
+  const plain = params.get('s');
+  if (!compressed && !plain) return null;
+
+  const bytes = compressed ? await pipeThrough(fromBase64Url(compressed), new DecompressionStream('deflate-raw')) : fromBase64Url(plain!);
+  const sgf = new TextDecoder().decode(bytes);
+
+  const markup = params.get('mk');
+  const size = parseInt(sgf.match(/SZ\[(\d+)/)?.[1] ?? '19', 10);
+  const markers = markup ? readMarkup(readSgf(`(;${markup})`).trees[0]?.nodes[0] ?? {}, size) : [];
+  return { sgf, path: decodePath(params.get('at') ?? ''), markers };
+};
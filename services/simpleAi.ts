@@ -1,149 +1,188 @@
 
-import { BoardState, Coordinate } from "../types";
-import { placeStone, cloneBoard } from "./gameLogic";
-
-// Map Levels 1-5 to Simulation Counts
-// Drastically reduced based on single-threaded JS performance estimates
-const LEVEL_TO_SIMULATIONS = [
-    2,     // Level 0 (Fallback)
-    2,     // Level 1: Beginner (Instant)
-    10,    // Level 2: Easy (~1 sec)
-    30,    // Level 3: Medium (~3 sec)
-    75,    // Level 4: Hard (~10 sec)
-    200    // Level 5: Sensei (~30 sec)
+import { BoardState, Coordinate, InfluenceMap, PositionEstimate } from "../types";
+import { getLegalMoves, calculateTerritory } from "./gameLogic";
+import { EMPTY, fromBoardState, toStonesMap, chainStones } from "./fastBoard";
+import {
+    createSearch, runPlayout, searchProgress, isBudgetSpent,
+    SearchBudget, SearchProgress, SearchResult, SearchRequest, SearchMessage, PASS_POINT
+} from "./mcts";
+
+// Thinking time per level, and a playout cap so the low levels stay beatable on fast machines
+const LEVEL_BUDGETS: SearchBudget[] = [
+    { timeMs: 300, maxPlayouts: 100 },      // Level 0 (Fallback)
+    { timeMs: 300, maxPlayouts: 100 },      // Level 1: Beginner
+    { timeMs: 700, maxPlayouts: 600 },      // Level 2: Easy
+    { timeMs: 1500, maxPlayouts: 3000 },    // Level 3: Medium
+    { timeMs: 3000, maxPlayouts: 15000 },   // Level 4: Hard
+    { timeMs: 6000, maxPlayouts: Infinity } // Level 5: Sensei
 ];
 
-export const getLevelSimulations = (level: number): number => {
-    const idx = Math.min(Math.max(level, 1), 5); 
-    return LEVEL_TO_SIMULATIONS[idx] || 10;
-};
-
-// Helper: Fisher-Yates shuffle
-const shuffleArray = (array: any[]) => {
-    for (let i = array.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [array[i], array[j]] = [array[j], array[i]];
+export const getLevelBudget = (level: number): SearchBudget =>
+    LEVEL_BUDGETS[Math.min(Math.max(Math.round(level), 1), 5)];
+
+const MAIN_THREAD_SLICE_MS = 12; // Without a worker, search in slices this long between frames
+
+// Same loop as the worker, yielding to the page between slices
+const searchOnMainThread = async (
+    request: SearchRequest,
+    signal?: AbortSignal,
+    onProgress?: (progress: SearchProgress) => void
+): Promise<SearchResult> => {
+    const { board, options, budget } = request;
+    const search = createSearch(board, options);
+    const start = performance.now();
+
+    while (!isBudgetSpent(search, budget, performance.now() - start)) {
+        const sliceEnd = performance.now() + MAIN_THREAD_SLICE_MS;
+        while (performance.now() < sliceEnd && !isBudgetSpent(search, budget, performance.now() - start)) {
+            search.step(8);
+        }
+        onProgress?.(searchProgress(search, budget, performance.now() - start));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) throw new Error("Aborted");
     }
+    return search.result();
 };
 
-// Optimized Playout
-const playout = (startState: BoardState): number => {
-    let state = cloneBoard(startState);
-    let passes = 0;
-    let moves = 0;
-    // Cap game length to prevent infinite loops
-    const maxMoves = state.size * state.size * 1.5; 
-
-    const allCoords: Coordinate[] = [];
-    for(let y=0; y<state.size; y++) {
-        for(let x=0; x<state.size; x++) {
-            allCoords.push({x, y});
+// Runs the search in a Web Worker (terminated on abort), falling back to the main thread
+const runSearch = (
+    request: SearchRequest,
+    signal?: AbortSignal,
+    onProgress?: (progress: SearchProgress) => void
+): Promise<SearchResult> => {
+    if (signal?.aborted) return Promise.reject(new Error("Aborted"));
+    if (typeof Worker === 'undefined') return searchOnMainThread(request, signal, onProgress);
+
+    return new Promise((resolve, reject) => {
+        let worker: Worker;
+        try {
+            worker = new Worker(new URL('./mctsWorker.ts', import.meta.url), { type: 'module' });
+        } catch {
+            searchOnMainThread(request, signal, onProgress).then(resolve, reject);
+            return;
         }
-    }
 
-    while (passes < 2 && moves < maxMoves) {
-        let moved = false;
-        
-        // Fast Random Move Selection
-        const candidates = allCoords.filter(c => !state.stones.has(`${c.x},${c.y}`));
-        
-        if (candidates.length === 0) {
-            passes++;
-            state.turn = state.turn === 'BLACK' ? 'WHITE' : 'BLACK';
-        } else {
-            shuffleArray(candidates);
-            
-            for (const cand of candidates) {
-                const nextState = placeStone(state, cand);
-                if (nextState) {
-                    state = nextState;
-                    moved = true;
-                    passes = 0;
-                    break;
-                }
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            finish();
+            reject(new Error("Aborted"));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        worker.onmessage = (event: MessageEvent<SearchMessage>) => {
+            if (event.data.type === 'progress') {
+                onProgress?.(event.data.progress);
+            } else {
+                finish();
+                resolve(event.data.result);
             }
+        };
+        // A worker that can't load (e.g. blocked by the page's policy) shouldn't cost the move
+        worker.onerror = (event) => {
+            event.preventDefault();
+            finish();
+            searchOnMainThread(request, signal, onProgress).then(resolve, reject);
+        };
+        worker.postMessage(request);
+    });
+};
 
-            if (!moved) {
-                // No valid moves (all were suicides or ko)
-                passes++;
-                state.turn = state.turn === 'BLACK' ? 'WHITE' : 'BLACK';
-            }
-        }
-        moves++;
-    }
+// Root candidates come from getLegalMoves, so suicide, ko and superko follow the full rules
+const searchRequest = (board: BoardState, budget: SearchBudget, opponentPassed: boolean): SearchRequest => ({
+    board: fromBoardState(board),
+    options: {
+        komi: board.rules.komi,
+        candidates: getLegalMoves(board).map(c => c.y * board.size + c.x),
+        opponentPassed
+    },
+    budget
+});
+
+// Picks a move with UCT/RAVE tree search within the level's budget; null means pass
+export const generateMove = async (
+    board: BoardState,
+    budget: SearchBudget = LEVEL_BUDGETS[3],
+    signal?: AbortSignal,
+    onProgress?: (progress: SearchProgress) => void
+): Promise<Coordinate | null> => {
+    const lastMove = board.history[board.history.length - 1];
+    const request = searchRequest(board, budget, lastMove?.type === 'PASS');
+    if (request.options.candidates!.length === 0) return null;
+
+    const result = await runSearch(request, signal, onProgress);
+    if (result.move === PASS_POINT) return null;
+    return { x: result.move % board.size, y: Math.floor(result.move / board.size) };
+};
 
-    // Score: Simplified Area Scoring
-    let score = state.captures[startState.turn] - state.captures[startState.turn === 'BLACK' ? 'WHITE' : 'BLACK'];
-    
-    // Add stone count difference
-    let myStones = 0;
-    let oppStones = 0;
-    state.stones.forEach((color) => {
-        if (color === startState.turn) myStones++;
-        else oppStones++;
+/**
+ * Where the stones are likely to end up and who is winning, from a short search: ownership is
+ * averaged over the playouts' final positions, the win rate is that of the best move found.
+ */
+export const analyzePosition = async (
+    board: BoardState,
+    budget: SearchBudget,
+    signal?: AbortSignal
+): Promise<PositionEstimate> => {
+    const result = await runSearch(searchRequest(board, budget, false), signal);
+
+    const ownership: InfluenceMap = {};
+    let scoreLead = -board.rules.komi;
+    result.ownership.forEach((value, p) => {
+        ownership[`${p % board.size},${Math.floor(p / board.size)}`] = value;
+        scoreLead += value;
     });
 
-    return score + (myStones - oppStones);
+    // With no move left to search, the count decides
+    const toMoveWinRate = result.candidates.length > 0
+        ? result.winRate
+        : (scoreLead > 0) === (board.turn === 'BLACK') ? 1 : 0;
+    return {
+        size: board.size,
+        ownership,
+        blackWinRate: board.turn === 'BLACK' ? toMoveWinRate : 1 - toMoveWinRate,
+        scoreLead,
+        playouts: result.playouts
+    };
 };
 
-export const generateMove = async (
-    board: BoardState, 
-    simulations: number = 50,
+/**
+ * Suggests which stones are dead at the end of the game.
+ * Runs random playouts from the final position and marks every group whose
+ * points end up owned by the opponent in most of them.
+ */
+export const proposeDeadStones = async (
+    board: BoardState,
+    playouts: number = 24,
     signal?: AbortSignal
-): Promise<Coordinate | null> => {
-    
-    // For the root node (actual move), we DO need all legal moves to choose from
-    const legalCandidates: Coordinate[] = [];
-    for (let y = 0; y < board.size; y++) {
-        for (let x = 0; x < board.size; x++) {
-            const c = {x, y};
-            // Check legality by actually placing (this handles suicide/ko)
-            if (!board.stones.has(`${x},${y}`) && placeStone(board, c)) {
-                legalCandidates.push(c);
-            }
-        }
+): Promise<string[]> => {
+    const survived = new Map<string, number>(); // "x,y" -> playouts where the stone's colour kept the point
+    board.stones.forEach((_, key) => survived.set(key, 0));
+
+    for (let i = 0; i < playouts; i++) {
+        if (signal?.aborted) throw new Error("Aborted");
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const final = { ...board, stones: toStonesMap(runPlayout(fromBoardState(board))) };
+        const territory = calculateTerritory(final);
+        board.stones.forEach((color, key) => {
+            const owner = final.stones.get(key) ?? territory.get(key);
+            if (owner === color) survived.set(key, survived.get(key)! + 1);
+        });
     }
 
-    if (legalCandidates.length === 0) return null;
-    if (legalCandidates.length === 1) return legalCandidates[0];
-    
-    const scores = new Map<number, number>(); // index -> total score
-
-    // Run simulations
-    const batchSize = 2;
-    for (let i = 0; i < legalCandidates.length; i++) {
-        if (signal?.aborted) {
-            throw new Error("Aborted");
-        }
+    // Decide per group so a chain is never split between dead and alive
+    const dead: string[] = [];
+    const fb = fromBoardState(board);
+    for (let point = 0; point < fb.cells.length; point++) {
+        if (fb.cells[point] === EMPTY || fb.chainHead[point] !== point) continue;
+        const group = chainStones(fb, point).map(p => `${p % board.size},${Math.floor(p / board.size)}`);
 
-        let totalScore = 0;
-        for (let s = 0; s < simulations; s++) {
-            // Yield to event loop to keep UI responsive and check abort
-            if (s % batchSize === 0) {
-                if (signal?.aborted) throw new Error("Aborted");
-                await new Promise(resolve => setTimeout(resolve, 0));
-            }
-            
-            const nextState = placeStone(board, legalCandidates[i]);
-            if (nextState) {
-                totalScore += playout(nextState);
-            } else {
-                totalScore -= 1000;
-            }
-        }
-        scores.set(i, totalScore);
+        const total = group.reduce((sum, k) => sum + survived.get(k)!, 0);
+        if (total / (group.length * playouts) < 0.5) dead.push(...group);
     }
 
-    // Find best score
-    let bestIndex = 0;
-    let bestScore = -Infinity;
-    
-    scores.forEach((score, index) => {
-        if (score > bestScore) {
-            bestScore = score;
-            bestIndex = index;
-        }
-    });
-
-    return legalCandidates[bestIndex];
+    return dead;
 };
@@ -10,16 +10,56 @@ export interface Stone extends Coordinate {
   color: StoneColor;
 }
 
-export interface MoveHistory {
-  color: StoneColor;
-  coordinate: Coordinate;
-  capturedCount: number;
+// What a player (or engine) does on their turn. Passing and resigning are moves in their own right.
+export type MoveAction =
+  | { type: 'PLAY'; coordinate: Coordinate }
+  | { type: 'PASS' }
+  | { type: 'RESIGN' };
+
+// One entry of the game record
+export type MoveHistory =
+  | { type: 'PLAY'; color: StoneColor; coordinate: Coordinate; capturedCount: number }
+  | { type: 'PASS'; color: StoneColor }
+  | { type: 'RESIGN'; color: StoneColor };
+
+// SIMPLE forbids only the immediate retake of a single-stone ko.
+// POSITIONAL_SUPERKO forbids recreating any earlier board position.
+// SITUATIONAL_SUPERKO forbids recreating an earlier position with the same player to move.
+export type KoRule = 'SIMPLE' | 'POSITIONAL_SUPERKO' | 'SITUATIONAL_SUPERKO';
+
+export type ScoringMethod = 'AREA' | 'TERRITORY';
+
+export type RuleSetId = 'CHINESE' | 'JAPANESE' | 'AGA' | 'NEW_ZEALAND';
+
+export interface RuleSet {
+  id: RuleSetId;
+  name: string; // Display name
+  sgfName: string; // Value written to the SGF RU[] property
+  scoring: ScoringMethod;
+  komi: number;
+  koRule: KoRule;
+  allowSuicide: boolean; // Multi-stone suicide only; single-stone suicide is never allowed
+  passStones: boolean; // Each pass hands the opponent one prisoner (AGA)
+}
+
+export type IllegalMoveReason = 'OCCUPIED' | 'SUICIDE' | 'KO' | 'SUPERKO' | 'GAME_OVER';
+
+// Position the game record starts from: handicap and setup stones (SGF AB/AW) and the player to move (PL)
+export interface InitialPosition {
+  stones: Map<string, StoneColor>; // Key is "x,y"
+  turn: StoneColor;
+}
+
+// A position edited in Setup Mode after moves were played; the record continues from it
+export interface SetupEdit {
+  moveNumber: number; // Moves of `history` played before the edit
+  position: InitialPosition;
 }
 
 export interface BoardState {
   size: number;
   stones: Map<string, StoneColor>; // Key is "x,y"
-  lastMove: Coordinate | null;
+  lastMove: Coordinate | null; // Point of the most recent stone; null at the start and after a pass
   captures: {
     BLACK: number;
     WHITE: number;
@@ -27,6 +67,12 @@ export interface BoardState {
   turn: StoneColor;
   history: MoveHistory[];
   gameOver: boolean;
+  rules: RuleSet;
+  handicapStones: Coordinate[]; // Black stones placed before the first move (fixed or free placement); also in initialPosition
+  initialPosition: InitialPosition; // `history` is replayed from here
+  setupEdits: SetupEdit[]; // Mid-game Setup Mode edits in order, at most one per move number; replays continue from the last one
+  koPoint: Coordinate | null; // Point the player to move may not retake this turn (simple ko)
+  positionHistory: string[]; // Position key + player to move ('b'/'w') of every position reached so far, including the current one
 }
 
 export enum HintLevel {
@@ -56,24 +102,28 @@ export type DifficultyLevel = number; // 1-10
 
 export type EngineStatus = 'INITIALIZING' | 'READY' | 'THINKING' | 'ERROR';
 
-export type GamePhase = 'PLAY' | 'SETUP';
+// SCORING: both players passed and are agreeing on dead stones before the result is final
+export type GamePhase = 'PLAY' | 'SETUP' | 'SCORING';
 
-export type SetupTool = 'ALTERNATE' | 'BLACK_ONLY' | 'WHITE_ONLY' | 'CLEAR';
+export type SetupTool = 'ALTERNATE' | 'BLACK_ONLY' | 'WHITE_ONLY' | 'CLEAR' | 'HANDICAP';
 
 export interface ScoreResult {
+  scoring: ScoringMethod;
   blackStones: number;
   blackTerritory: number;
+  blackPrisoners: number; // Territory scoring: captures + dead stones removed (0 under area scoring)
   blackTotal: number;
   whiteStones: number;
   whiteTerritory: number;
+  whitePrisoners: number;
   komi: number;
   whiteTotal: number;
-  winner: 'BLACK' | 'WHITE';
+  winner: 'BLACK' | 'WHITE' | null; // null for a tie (jigo)
   diff: number;
 }
 
 export interface GameResult {
-  winner: 'BLACK' | 'WHITE';
+  winner: 'BLACK' | 'WHITE' | null; // null for a tie (jigo); a resignation always has a winner
   reason: 'RESIGNATION' | 'SCORING';
   score?: ScoreResult;
 }
@@ -83,10 +133,59 @@ export interface AnalysisMove {
   score: number;
 }
 
+// A move chosen by an engine, with what the player should hear about it
+export interface EngineMove {
+  move: MoveAction;
+  explanation?: string; // Shown when the engine resigns (Gemini gives its reason for every move)
+  cost?: number; // USD spent on the API call
+  fallbackNotice?: string; // The engine couldn't play this position and another one chose the move
+}
+
+// Reported while an engine thinks, for engines that search within a budget
+export interface EngineProgress {
+  fraction: number; // Of the thinking time used, 0 to 1
+  detail?: string; // e.g. "4,200 playouts, 61% to win"
+}
+
+export interface EngineCapabilities {
+  hints: boolean; // Can suggest moves for the player to move
+  score: boolean; // Can say which stones are dead at the end of the game
+  analysis: boolean; // Can estimate ownership and who is winning
+  maxBoardSize: number; // Largest board it plays on by itself
+  paid: boolean; // Each move costs API credit
+}
+
+/**
+ * Anything that can play a move: local Monte Carlo, GNU Go on a server, an LLM, ... Engines are
+ * stateless; every call gets the whole position. Pass `signal` to cancel a call that is in flight.
+ */
+export interface GoEngine {
+  id: string; // Stored as the opponent setting, e.g. "gnugo_5"
+  displayName: string; // Opponent menu entry, e.g. "GNU Go Lvl 5"
+  group: string; // Opponent menu section, e.g. "GNU Go"
+  player: { name: string; level?: string }; // As written to SGF PW/WR
+  capabilities: EngineCapabilities;
+  hidden?: boolean; // Only selectable by id, not offered in the opponent menu
+  genmove: (board: BoardState, signal?: AbortSignal, onProgress?: (progress: EngineProgress) => void) => Promise<EngineMove | null>; // null: no move this time
+  hints?: (board: BoardState, signal?: AbortSignal) => Promise<AnalysisMove[]>;
+  score?: (board: BoardState, signal?: AbortSignal) => Promise<string[]>; // Dead stones as "x,y" keys
+  analyze?: (board: BoardState, signal?: AbortSignal) => Promise<PositionEstimate>;
+  close?: () => void; // Releases a connection when the engine is unregistered
+}
+
 export interface InfluenceMap {
   [key: string]: number; // "x,y" -> value from -1 (Full White) to 1 (Full Black)
 }
 
+// How a position is likely to end, from an engine's playouts
+export interface PositionEstimate {
+  size: number; // Board size it was computed for
+  ownership: InfluenceMap; // Expected owner of each point at the end of the game
+  blackWinRate: number; // 0 to 1
+  scoreLead: number; // Expected area score margin after komi; positive when Black is ahead
+  playouts: number;
+}
+
 // Added Puzzle interface to fix errors in services/puzzleData.ts and components/PuzzleList.tsx
 export interface Puzzle {
   id: string;